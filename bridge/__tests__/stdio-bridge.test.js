@@ -0,0 +1,297 @@
+/**
+ * Runs the stdio bridge against a local stand-in of the MCP endpoint
+ *
+ * Usage: node --test bridge/__tests__
+ */
+
+const assert = require('assert')
+const { spawn } = require('child_process')
+const http = require('http')
+const path = require('path')
+const { after, before, test } = require('node:test')
+
+const BRIDGE = path.join(__dirname, '..', 'stdio-bridge.js')
+const SESSION_ID = 'session-1'
+const WAIT_TIMEOUT_MS = 5000
+
+/**
+ * Stand-in of the Streamable HTTP endpoint of an MCP instance. The first
+ * event stream sends a notification and closes, so the bridge reconnects;
+ * later ones stay open.
+ */
+function startServer() {
+  const requests = []
+  const openStreams = new Set()
+
+  const server = http.createServer((req, res) => {
+    let text = ''
+
+    req.on('data', (chunk) => {
+      text += chunk
+    })
+
+    req.on('end', () => {
+      const message = text ? JSON.parse(text) : undefined
+
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        message,
+      })
+
+      if (req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+
+        if (requests.filter(({ method }) => method === 'GET').length === 1) {
+          res.end(
+            `retry: 10\n\nevent: message\ndata: ${JSON.stringify({
+              jsonrpc: '2.0',
+              method: 'notifications/tools/list_changed',
+            })}\n\n`
+          )
+
+          return
+        }
+
+        openStreams.add(res)
+        res.on('close', () => openStreams.delete(res))
+        res.write(': keep-alive\n\n')
+
+        return
+      }
+
+      if (req.method === 'DELETE' || !message.id) {
+        res.writeHead(202)
+        res.end()
+
+        return
+      }
+
+      if (message.method === 'initialize') {
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'Mcp-Session-Id': SESSION_ID,
+        })
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: message.id,
+            result: { protocolVersion: '2025-06-18', capabilities: {} },
+          })
+        )
+
+        return
+      }
+
+      if (message.method === 'tools/call') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+        res.write(
+          `event: message\r\ndata: ${JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken: 1, progress: 50, total: 100 },
+          })}\r\n\r\n`
+        )
+        res.end(
+          `event: message\ndata: ${JSON.stringify({
+            jsonrpc: '2.0',
+            id: message.id,
+            result: { content: [{ type: 'text', text: 'ok' }] },
+          })}\n\n`
+        )
+
+        return
+      }
+
+      res.writeHead(500)
+      res.end('Unexpected request')
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        requests,
+        url: `http://127.0.0.1:${server.address().port}`,
+        close: () => {
+          openStreams.forEach((res) => res.destroy())
+          server.close()
+        },
+      })
+    })
+  })
+}
+
+/**
+ * Starts the bridge and collects the MCP messages it writes to stdout
+ */
+function startBridge(env) {
+  const child = spawn(process.execPath, [BRIDGE], {
+    env: { PATH: process.env.PATH, ...env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  })
+
+  const messages = []
+  let stdout = ''
+  let stderr = ''
+
+  child.stdout.on('data', (chunk) => {
+    stdout += chunk
+
+    const lines = stdout.split('\n')
+
+    stdout = lines.pop()
+    messages.push(...lines.map((line) => JSON.parse(line)))
+  })
+
+  child.stderr.on('data', (chunk) => {
+    stderr += chunk
+  })
+
+  const exited = new Promise((resolve) => {
+    child.on('exit', (code) => resolve(code))
+  })
+
+  return {
+    messages,
+    exited,
+    getStderr: () => stderr,
+    write: (message) => child.stdin.write(`${JSON.stringify(message)}\n`),
+    writeLine: (line) => child.stdin.write(`${line}\n`),
+    end: () => child.stdin.end(),
+    kill: () => child.kill(),
+  }
+}
+
+function waitFor(condition, description) {
+  const startedAt = Date.now()
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) {
+        resolve()
+      } else if (Date.now() - startedAt > WAIT_TIMEOUT_MS) {
+        reject(new Error(`Timed out waiting for ${description}`))
+      } else {
+        setTimeout(check, 10)
+      }
+    }
+
+    check()
+  })
+}
+
+let server
+
+before(async () => {
+  server = await startServer()
+})
+
+after(() => server.close())
+
+test('relays a session between stdio and the HTTP endpoint', async () => {
+  const bridge = startBridge({
+    MCP_SERVER_URL: `${server.url}/`,
+    MCP_INSTANCE: 'my instance',
+    VTEX_APP_KEY: 'key',
+    VTEX_APP_TOKEN: 'token',
+  })
+
+  try {
+    bridge.write({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })
+    await waitFor(() => bridge.messages.length === 1, 'the initialize result')
+
+    assert.strictEqual(bridge.messages[0].result.protocolVersion, '2025-06-18')
+
+    // The event stream opens once the session is ready, and is reopened
+    // after the server closes it
+    bridge.write({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    await waitFor(
+      () =>
+        server.requests.filter(({ method }) => method === 'GET').length === 2,
+      'the event stream to reconnect'
+    )
+
+    assert.strictEqual(
+      bridge.messages[1].method,
+      'notifications/tools/list_changed'
+    )
+
+    // Messages the server streams while answering are relayed in order
+    bridge.write({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: {} })
+    await waitFor(() => bridge.messages.length === 4, 'the tools/call result')
+
+    assert.strictEqual(bridge.messages[2].method, 'notifications/progress')
+    assert.deepStrictEqual(bridge.messages[3], {
+      jsonrpc: '2.0',
+      id: 2,
+      result: { content: [{ type: 'text', text: 'ok' }] },
+    })
+
+    bridge.end()
+    assert.strictEqual(await bridge.exited, 0)
+  } finally {
+    bridge.kill()
+  }
+
+  const [initialize, ...sessionRequests] = server.requests
+
+  assert.strictEqual(initialize.url, '/_v/mcp_server/v1/mcp/my%20instance')
+  assert.strictEqual(initialize.headers['x-vtex-api-appkey'], 'key')
+  assert.strictEqual(initialize.headers['x-vtex-api-apptoken'], 'token')
+  assert.strictEqual(initialize.headers['mcp-session-id'], undefined)
+
+  for (const request of sessionRequests) {
+    assert.strictEqual(request.headers['mcp-session-id'], SESSION_ID)
+    assert.strictEqual(request.headers['mcp-protocol-version'], '2025-06-18')
+  }
+
+  assert.strictEqual(
+    server.requests[server.requests.length - 1].method,
+    'DELETE'
+  )
+})
+
+test('answers requests the server fails with a JSON-RPC error', async () => {
+  const bridge = startBridge({
+    MCP_SERVER_URL: server.url,
+    MCP_INSTANCE: 'default',
+    VTEX_AUTH_COOKIE: 'cookie',
+  })
+
+  try {
+    bridge.write({ jsonrpc: '2.0', id: 7, method: 'prompts/list' })
+    bridge.writeLine('not json')
+    await waitFor(() => bridge.messages.length === 2, 'the errors')
+
+    assert.deepStrictEqual(bridge.messages, [
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' },
+      },
+      {
+        jsonrpc: '2.0',
+        id: 7,
+        error: {
+          code: -32603,
+          message: 'Bridge request failed: HTTP 500 Unexpected request',
+        },
+      },
+    ])
+
+    bridge.end()
+    assert.strictEqual(await bridge.exited, 0)
+  } finally {
+    bridge.kill()
+  }
+})
+
+test('exits with the usage when the settings are incomplete', async () => {
+  const bridge = startBridge({ MCP_INSTANCE: 'default' })
+
+  assert.strictEqual(await bridge.exited, 1)
+  assert.match(bridge.getStderr(), /Either the account or the server URL/)
+  assert.match(bridge.getStderr(), /Usage: node bridge\/stdio-bridge.js/)
+})
@@ -0,0 +1,460 @@
+#!/usr/bin/env node
+/**
+ * MCP stdio bridge
+ *
+ * Speaks MCP over stdio (one JSON-RPC message per line) and forwards each
+ * message to the Streamable HTTP endpoint of an MCP instance:
+ * POST /_v/mcp_server/v1/mcp/:instance
+ *
+ * Responses and the messages the server streams while handling a request
+ * (progress, elicitation) are written to stdout. Once the session is ready,
+ * the session event stream (GET) is kept open and its notifications are
+ * relayed too. Diagnostics go to stderr, stdout only carries MCP messages.
+ *
+ * Usage: node bridge/stdio-bridge.js [--config <file.json>]
+ */
+
+const fs = require('fs')
+const readline = require('readline')
+
+const MCP_PATH = '/_v/mcp_server/v1/mcp'
+
+// Reconnection delay of the event stream when the server doesn't send one
+const DEFAULT_RETRY_MS = 1000
+
+// Longest wait between event stream reconnections after failures
+const MAX_RETRY_MS = 30 * 1000
+
+/**
+ * Settings read from the config file, overridden by environment variables
+ */
+const CONFIG_ENV_VARIABLES = {
+  account: 'VTEX_ACCOUNT',
+  workspace: 'VTEX_WORKSPACE',
+  instance: 'MCP_INSTANCE',
+  url: 'MCP_SERVER_URL',
+  appKey: 'VTEX_APP_KEY',
+  appToken: 'VTEX_APP_TOKEN',
+  authCookie: 'VTEX_AUTH_COOKIE',
+}
+
+const USAGE = `Usage: node bridge/stdio-bridge.js [--config <file.json>]
+
+Settings (environment variables override the config file):
+  account     VTEX_ACCOUNT       VTEX account name
+  workspace   VTEX_WORKSPACE     Workspace, defaults to master
+  instance    MCP_INSTANCE       MCP instance to connect to
+  url         MCP_SERVER_URL     Base URL, defaults to https://{workspace}--{account}.myvtex.com
+  appKey      VTEX_APP_KEY       App key, used with appToken
+  appToken    VTEX_APP_TOKEN     App token, used with appKey
+  authCookie  VTEX_AUTH_COOKIE   VtexIdClientAutCookie, used without app key`
+
+function log(message) {
+  process.stderr.write(`[mcp-bridge] ${message}\n`)
+}
+
+/**
+ * Writes an MCP message to the client
+ */
+function send(message) {
+  process.stdout.write(`${JSON.stringify(message)}\n`)
+}
+
+/**
+ * Reads the settings from the config file (--config or MCP_BRIDGE_CONFIG)
+ * and the environment
+ * @returns The settings, or null with the reason when they are incomplete
+ */
+function loadConfig(argv, env) {
+  const configIndex = argv.indexOf('--config')
+  const configFile =
+    configIndex >= 0 ? argv[configIndex + 1] : env.MCP_BRIDGE_CONFIG
+
+  let config = {}
+
+  if (configFile) {
+    try {
+      config = JSON.parse(fs.readFileSync(configFile, 'utf8'))
+    } catch (error) {
+      return { error: `Can't read config file ${configFile}: ${error.message}` }
+    }
+  }
+
+  for (const [key, variable] of Object.entries(CONFIG_ENV_VARIABLES)) {
+    if (env[variable]) {
+      config[key] = env[variable]
+    }
+  }
+
+  if (!config.instance) {
+    return { error: 'The MCP instance is required' }
+  }
+
+  if (!config.url && !config.account) {
+    return { error: 'Either the account or the server URL is required' }
+  }
+
+  if (!(config.appKey && config.appToken) && !config.authCookie) {
+    return {
+      error: 'Either appKey and appToken or authCookie are required',
+    }
+  }
+
+  const baseUrl = (
+    config.url ||
+    `https://${config.workspace || 'master'}--${config.account}.myvtex.com`
+  ).replace(/\/+$/, '')
+
+  return {
+    config: {
+      ...config,
+      endpoint: `${baseUrl}${MCP_PATH}/${encodeURIComponent(config.instance)}`,
+    },
+  }
+}
+
+/**
+ * Builds the authentication headers: app key and token when present,
+ * otherwise the VtexIdClientAutCookie
+ */
+function getAuthHeaders(config) {
+  if (config.appKey && config.appToken) {
+    return {
+      'X-VTEX-API-AppKey': config.appKey,
+      'X-VTEX-API-AppToken': config.appToken,
+    }
+  }
+
+  return { VtexIdClientAutCookie: config.authCookie }
+}
+
+/**
+ * Reads a text/event-stream body and calls onEvent with the data of each
+ * event
+ * @returns The last reconnection delay (retry field) sent by the server
+ */
+async function readEventStream(body, onEvent) {
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let retry
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary)
+
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      const data = []
+
+      for (const line of block.split('\n')) {
+        // Comments (keep-alive) start with a colon
+        if (line.startsWith(':')) {
+          continue
+        }
+
+        const separator = line.indexOf(':')
+        const field = separator >= 0 ? line.slice(0, separator) : line
+        const value =
+          separator >= 0 ? line.slice(separator + 1).replace(/^ /, '') : ''
+
+        if (field === 'data') {
+          data.push(value)
+        } else if (field === 'retry' && /^\d+$/.test(value)) {
+          retry = Number(value)
+        }
+      }
+
+      if (data.length > 0) {
+        onEvent(data.join('\n'))
+      }
+    }
+  }
+
+  return retry
+}
+
+/**
+ * Writes the MCP messages carried by SSE events to the client
+ */
+function relayEvent(data) {
+  try {
+    send(JSON.parse(data))
+  } catch (_) {
+    log(`Ignoring event that isn't JSON: ${data}`)
+  }
+}
+
+class StdioBridge {
+  constructor(config) {
+    this.config = config
+    this.sessionId = undefined
+    this.protocolVersion = undefined
+    // Resolves when the session is created, messages wait for it
+    this.sessionReady = Promise.resolve()
+    this.pending = new Set()
+    this.streamController = undefined
+    this.reconnectTimer = undefined
+  }
+
+  /**
+   * Forwards a message read from stdin, keeping track of it until the
+   * server has answered
+   */
+  handleMessage(message) {
+    let forwarding
+
+    if (message.method === 'initialize') {
+      forwarding = this.forward(message)
+      this.sessionReady = forwarding
+    } else {
+      forwarding = this.sessionReady.then(() => this.forward(message))
+    }
+
+    this.pending.add(forwarding)
+    forwarding.finally(() => this.pending.delete(forwarding))
+  }
+
+  getHeaders(extra) {
+    return {
+      ...getAuthHeaders(this.config),
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion
+        ? { 'MCP-Protocol-Version': this.protocolVersion }
+        : {}),
+      ...extra,
+    }
+  }
+
+  /**
+   * POSTs a message and relays the answer: nothing for 202, the JSON body,
+   * or every event of an SSE response. Requests the server couldn't answer
+   * get a JSON-RPC error, so the client doesn't wait forever.
+   */
+  async forward(message) {
+    try {
+      const response = await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: this.getHeaders({
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        }),
+        body: JSON.stringify(message),
+      })
+
+      if (message.method === 'initialize') {
+        this.sessionId = response.headers.get('mcp-session-id') || undefined
+      }
+
+      if (response.status === 202) {
+        if (message.method === 'notifications/initialized') {
+          this.openEventStream()
+        }
+
+        return
+      }
+
+      const contentType = response.headers.get('content-type') || ''
+
+      if (contentType.includes('text/event-stream')) {
+        await readEventStream(response.body, relayEvent)
+
+        return
+      }
+
+      const text = await response.text()
+      let body
+
+      try {
+        body = text ? JSON.parse(text) : undefined
+      } catch (_) {
+        body = undefined
+      }
+
+      if (body && typeof body === 'object') {
+        if (
+          message.method === 'initialize' &&
+          body.result &&
+          body.result.protocolVersion
+        ) {
+          this.protocolVersion = body.result.protocolVersion
+        }
+
+        send(body)
+
+        return
+      }
+
+      if (!response.ok) {
+        this.sendError(message, `HTTP ${response.status} ${text}`.trim())
+      }
+    } catch (error) {
+      this.sendError(message, error.message)
+    }
+  }
+
+  sendError(message, reason) {
+    log(`${message.method || 'response'} failed: ${reason}`)
+
+    // Notifications and client responses have nobody waiting for an answer
+    if (message.id === undefined || !message.method) {
+      return
+    }
+
+    send({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32603, message: `Bridge request failed: ${reason}` },
+    })
+  }
+
+  /**
+   * Keeps the session event stream open, reconnecting when the server
+   * closes it, and relays its notifications
+   */
+  openEventStream() {
+    if (this.streamController || !this.sessionId) {
+      return
+    }
+
+    this.streamController = new AbortController()
+    this.connectEventStream(DEFAULT_RETRY_MS, 0)
+  }
+
+  /**
+   * Reads the event stream until the server closes it, then schedules the
+   * next connection after the retry delay of the server, doubled for each
+   * failure in a row
+   */
+  async connectEventStream(retryMs, failures) {
+    const { signal } = this.streamController
+    let nextRetryMs = retryMs
+    let nextFailures = failures
+
+    try {
+      const response = await fetch(this.config.endpoint, {
+        method: 'GET',
+        headers: this.getHeaders({ Accept: 'text/event-stream' }),
+        signal,
+      })
+
+      // No stream for this session (e.g. it expired) or this server
+      if ([404, 405, 406].includes(response.status)) {
+        log(`Event stream unavailable: HTTP ${response.status}`)
+
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      nextFailures = 0
+
+      const retry = await readEventStream(response.body, relayEvent)
+
+      if (retry !== undefined) {
+        nextRetryMs = retry
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return
+      }
+
+      nextFailures += 1
+      log(`Event stream failed: ${error.message}`)
+    }
+
+    if (signal.aborted) {
+      return
+    }
+
+    const delay = Math.min(nextRetryMs * 2 ** nextFailures, MAX_RETRY_MS)
+
+    this.reconnectTimer = setTimeout(
+      () => this.connectEventStream(nextRetryMs, nextFailures),
+      delay
+    )
+  }
+
+  /**
+   * Waits for the messages being forwarded, then closes the event stream
+   * and terminates the session
+   */
+  async close() {
+    await Promise.allSettled([...this.pending])
+
+    if (this.streamController) {
+      this.streamController.abort()
+      clearTimeout(this.reconnectTimer)
+    }
+
+    if (!this.sessionId) {
+      return
+    }
+
+    try {
+      await fetch(this.config.endpoint, {
+        method: 'DELETE',
+        headers: this.getHeaders(),
+      })
+    } catch (error) {
+      log(`Failed to terminate the session: ${error.message}`)
+    }
+  }
+}
+
+function main() {
+  if (process.argv.includes('--help')) {
+    process.stdout.write(`${USAGE}\n`)
+
+    return
+  }
+
+  const { config, error } = loadConfig(process.argv.slice(2), process.env)
+
+  if (!config) {
+    log(error)
+    process.stderr.write(`${USAGE}\n`)
+    process.exitCode = 1
+
+    return
+  }
+
+  const bridge = new StdioBridge(config)
+  const input = readline.createInterface({ input: process.stdin })
+
+  log(`Forwarding to ${config.endpoint}`)
+
+  input.on('line', (line) => {
+    if (!line.trim()) {
+      return
+    }
+
+    let message
+
+    try {
+      message = JSON.parse(line)
+    } catch (_) {
+      send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' },
+      })
+
+      return
+    }
+
+    bridge.handleMessage(message)
+  })
+
+  input.on('close', () => {
+    bridge.close().then(() => process.exit(0))
+  })
+}
+
+main()
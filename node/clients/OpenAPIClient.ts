@@ -1,7 +1,18 @@
+import { createHash } from 'crypto'
+
 import type { InstanceOptions, IOContext } from '@vtex/api'
 import { ExternalClient } from '@vtex/api'
 
-import type { OpenAPISpec } from '../types/openapi'
+import type {
+  OpenAPISpec,
+  SpecFetchResult,
+  SpecValidators,
+} from '../types/openapi'
+import { parseSpecDocument } from '../utils/specParser'
+import {
+  convertSwagger2ToOpenAPI,
+  isSwagger2Spec,
+} from '../utils/swaggerConverter'
 
 /**
  * OpenAPIClient is a client for fetching OpenAPI specifications from external URLs.
@@ -9,7 +20,8 @@ import type { OpenAPISpec } from '../types/openapi'
  * OpenAPI 3.0 specifications from remote endpoints.
  *
  * The client handles HTTP requests with proper error handling and validation
- * to ensure the fetched content is a valid OpenAPI specification.
+ * to ensure the fetched content is a valid OpenAPI specification. Specs may
+ * be published as JSON or YAML, in OpenAPI 3 or Swagger 2.0.
  */
 export default class OpenAPIClient extends ExternalClient {
   constructor(context: IOContext, options?: InstanceOptions) {
@@ -25,29 +37,94 @@ export default class OpenAPIClient extends ExternalClient {
   }
 
   /**
-   * Fetches an OpenAPI specification from a remote URL.
+   * Fetches an OpenAPI specification from a remote URL. YAML documents are
+   * detected by content type or content and parsed like JSON ones, and
+   * Swagger 2.0 documents are converted to OpenAPI 3.
    * @param specUrl The URL to fetch the OpenAPI specification from
    * @returns The parsed OpenAPI specification
    * @throws Error if the URL is invalid, request fails, or spec is invalid
    */
   public async fetchSpecFromUrl(specUrl: string): Promise<OpenAPISpec> {
+    const result = await this.fetchSpecConditionally(specUrl)
+
+    if (result.notModified) {
+      throw new Error(
+        `Failed to fetch specification from ${specUrl}: unexpected 304 response`
+      )
+    }
+
+    return result.spec
+  }
+
+  /**
+   * Fetches an OpenAPI specification, sending the validators of the cached
+   * copy (If-None-Match, If-Modified-Since) so an unchanged document is
+   * answered with 304 instead of being downloaded and parsed again.
+   * @param specUrl The URL to fetch the OpenAPI specification from
+   * @param validators The ETag and Last-Modified of the cached copy, if any
+   * @returns The parsed specification with its validators, or notModified
+   * @throws Error if the URL is invalid, request fails, or spec is invalid
+   */
+  public async fetchSpecConditionally(
+    specUrl: string,
+    validators?: SpecValidators
+  ): Promise<SpecFetchResult> {
     try {
       // Validate URL format
       this.validateUrl(specUrl)
 
-      // Fetch the specification
-      const response = await this.http.get(specUrl, {
+      // Fetch the specification as text, since it may be JSON or YAML
+      const response = await this.http.getRaw<string>(specUrl, {
         headers: {
           Accept: 'application/json, application/yaml, text/yaml',
           'User-Agent': 'VTEX-IO-MCP-Server/1.0',
+          ...(validators?.etag ? { 'If-None-Match': validators.etag } : {}),
+          ...(validators?.lastModified
+            ? { 'If-Modified-Since': validators.lastModified }
+            : {}),
         },
         timeout: 30000,
+        responseType: 'text',
+        transformResponse: (data: unknown) => data,
+        validateStatus: (status: number) =>
+          (status >= 200 && status < 300) || status === 304,
       })
 
+      const responseValidators: SpecValidators = {
+        etag: response.headers?.etag ?? validators?.etag,
+        lastModified:
+          response.headers?.['last-modified'] ?? validators?.lastModified,
+      }
+
+      if (response.status === 304) {
+        return { notModified: true, validators: responseValidators }
+      }
+
+      const document = parseSpecDocument(
+        response.data,
+        response.headers?.['content-type']
+      )
+
+      // Swagger 2.0 specs are converted to the OpenAPI 3 shape
+      const spec = isSwagger2Spec(document)
+        ? convertSwagger2ToOpenAPI(document)
+        : document
+
       // Validate that it's a valid OpenAPI spec
-      this.validateOpenAPISpec(response)
+      this.validateOpenAPISpec(spec)
 
-      return response as OpenAPISpec
+      const text =
+        typeof response.data === 'string'
+          ? response.data
+          : JSON.stringify(response.data ?? '')
+
+      return {
+        notModified: false,
+        spec: spec as OpenAPISpec,
+        size: text.length,
+        hash: createHash('sha256').update(text).digest('hex'),
+        validators: responseValidators,
+      }
     } catch (error) {
       // Log the error for debugging
       this.context.logger.error({
@@ -101,7 +178,7 @@ export default class OpenAPIClient extends ExternalClient {
   private validateOpenAPISpec(spec: any): void {
     if (!spec || typeof spec !== 'object') {
       throw new Error(
-        'Invalid OpenAPI specification format: must be a JSON object'
+        'Invalid OpenAPI specification format: must be a JSON or YAML object'
       )
     }
 
@@ -141,7 +218,7 @@ export default class OpenAPIClient extends ExternalClient {
 
     if (!openApiVersion.startsWith('3.')) {
       throw new Error(
-        `Unsupported OpenAPI version: ${openApiVersion}. Only OpenAPI 3.x.x is supported`
+        `Unsupported OpenAPI version: ${openApiVersion}. Only OpenAPI 3.x.x and Swagger 2.0 are supported`
       )
     }
 
@@ -1,7 +1,16 @@
 import type { InstanceOptions, IOContext } from '@vtex/api'
 import { JanusClient } from '@vtex/api'
 
+import type { OpenAPIServer } from '../types/openapi'
+import { serializeQuery } from '../utils/parameterSerializer'
+import {
+  isOutboundAccessAllowed,
+  isVTEXHost,
+  resolveServerURL,
+} from '../utils/serverResolver'
+
 export interface VTEXAPIClientOptions {
+  // Base URL of operations whose spec declares no servers
   baseURL?: string
   timeout?: number
   retries?: number
@@ -11,9 +20,13 @@ export interface APIRequestConfig {
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'
   path: string
   headers?: Record<string, string>
-  query?: Record<string, any>
+  // Query values, or a query string already serialized (without the ?)
+  query?: Record<string, any> | string
   body?: any
   timeout?: number
+  signal?: AbortSignal
+  // Server of the operation; the account's API when omitted
+  server?: OpenAPIServer
 }
 
 export class VTEXAPIClient extends JanusClient {
@@ -46,15 +59,21 @@ export class VTEXAPIClient extends JanusClient {
       query,
       body,
       timeout = this.options?.timeout || 10000,
+      signal,
+      server,
     } = config
 
-    // Build the full URL
-    const baseURL = this.customBaseURL || this.getBaseURL()
-    const url = this.buildURL(baseURL, path)
+    // Build the full URL, on the host of the operation server
+    const baseURL = this.getBaseURL(server)
+    const url = this.buildURL(baseURL, path, query)
 
-    // Prepare headers with authentication and mandatory headers
+    // Prepare headers with authentication and mandatory headers. The
+    // credentials of the account are only sent to VTEX hosts. Requests reach
+    // the IO outbound proxy over HTTP, which switches to HTTPS when
+    // X-Vtex-Use-Https is set
     const requestHeaders = {
-      ...this.getAuthHeaders(),
+      ...(isVTEXHost(new URL(baseURL).hostname) ? this.getAuthHeaders() : {}),
+      ...(baseURL.startsWith('https:') ? { 'X-Vtex-Use-Https': 'true' } : {}),
       ...headers,
     }
 
@@ -66,9 +85,9 @@ export class VTEXAPIClient extends JanusClient {
       metric: `vtex-api-${method.toLowerCase()}`,
     }
 
-    // Add query parameters if provided
-    if (query && Object.keys(query).length > 0) {
-      requestOptions.params = query
+    // Let the caller abort the outbound request
+    if (signal) {
+      requestOptions.signal = signal
     }
 
     // Add body for POST, PUT, PATCH requests
@@ -128,23 +147,70 @@ export class VTEXAPIClient extends JanusClient {
   }
 
   /**
-   * Get the base URL for the request
+   * Get the base URL for the request: the URL of the operation server, with
+   * the account name as accountName, or else the configured base URL, or
+   * else the current account's API
    */
-  private getBaseURL(): string {
-    // Default to the current account's API
-    return `https://${this.context.account}.vtexcommercestable.com.br`
+  private getBaseURL(server?: OpenAPIServer): string {
+    const defaultBaseURL =
+      this.customBaseURL ||
+      `https://${this.context.account}.vtexcommercestable.com.br`
+
+    if (!server) {
+      return defaultBaseURL
+    }
+
+    return resolveServerURL(
+      server,
+      { accountName: this.context.account, account: this.context.account },
+      defaultBaseURL
+    )
   }
 
   /**
-   * Build the complete URL from base URL and path
+   * Build the complete URL from base URL, path and query. The query string is
+   * built here rather than by axios, which would encode arrays its own way.
+   * @throws Error when the outbound-access policies of the app don't allow
+   * the host and path
    */
-  private buildURL(_baseURL: string, path: string): string {
+  private buildURL(
+    baseURL: string,
+    path: string,
+    query?: Record<string, any> | string
+  ): string {
     // Ensure path starts with /
     const normalizedPath = path.startsWith('/') ? path : `/${path}`
+    const queryString =
+      typeof query === 'string' ? query : serializeQuery(query ?? {})
+
+    const base = new URL(baseURL)
+
+    // Dot segments are resolved, so the path checked is the path sent
+    const target = new URL(
+      `${base.pathname.replace(/\/+$/, '')}${normalizedPath}`,
+      base
+    )
+
+    if (
+      !isOutboundAccessAllowed(
+        base.hostname,
+        target.pathname,
+        this.context.account
+      )
+    ) {
+      throw new Error(
+        `Requests to '${base.hostname}${target.pathname}' are not allowed by the outbound-access policies of the app`
+      )
+    }
+
+    // Absolute URLs take precedence over the Janus base URL
+    const url = `http://${base.host}${target.pathname}${target.search}`
+
+    if (!queryString) {
+      return url
+    }
 
-    // For VTEX IO, we need to return only the path (relative URL)
-    // The baseURL is used for configuration but not in the actual HTTP request
-    return normalizedPath
+    return `${url}${target.search ? '&' : '?'}${queryString}`
   }
 
   /**
@@ -1,3 +1,5 @@
+import type { PassThrough } from 'stream'
+
 import type {
   ClientsConfig,
   ServiceContext,
@@ -6,6 +8,8 @@ import type {
 } from '@vtex/api'
 import { LRUCache, method, Service } from '@vtex/api'
 
+import type { MCPConfig } from './types'
+import type { MCPRequest } from './types/mcp-protocol'
 import { Clients } from './clients'
 import { initialLoad } from './middlewares/initialLoad'
 import { getApiDefinitions } from './middlewares/getApiDefinitions'
@@ -18,10 +22,19 @@ import { mcpToolsList } from './middlewares/mcpToolsList'
 import { mcpToolsCall } from './middlewares/mcpToolsCall'
 import { mcpResourcesList } from './middlewares/mcpResourcesList'
 import { mcpResourcesRead } from './middlewares/mcpResourcesRead'
+import { mcpResourceTemplatesList } from './middlewares/mcpResourceTemplatesList'
+import { mcpResourcesSubscribe } from './middlewares/mcpResourcesSubscribe'
+import { mcpResourcesUnsubscribe } from './middlewares/mcpResourcesUnsubscribe'
+import { mcpPromptsList } from './middlewares/mcpPromptsList'
+import { mcpPromptsGet } from './middlewares/mcpPromptsGet'
+import { mcpCompletionComplete } from './middlewares/mcpCompletionComplete'
+import { mcpLoggingSetLevel } from './middlewares/mcpLoggingSetLevel'
 import { mcpHandshake } from './middlewares/mcpHandshake'
 import { mcpInitialize } from './middlewares/mcpInitialize'
 import { mcpInitialized } from './middlewares/mcpInitialized'
 import { mcpRouter } from './middlewares/mcpRouter'
+import { mcpEventStream } from './middlewares/mcpEventStream'
+import { mcpSessionDelete } from './middlewares/mcpSessionDelete'
 import { auth } from './middlewares/auth'
 import { errorHandler } from './middlewares/errorHandler'
 
@@ -63,6 +76,17 @@ declare global {
     userProfile?: any
     // Added in the state via auth middleware when request has appkey and apptoken.
     appkey?: string
+    // Added in the state via initialLoad: the app settings, the MCP instance of the route and its configuration
+    body: {
+      appSettings: any
+      instance: string
+      mcpConfig?: MCPConfig
+    }
+    // Added in the state via mcpRouter: the JSON-RPC message being handled and its session
+    mcpRequest?: MCPRequest
+    mcpSessionId?: string
+    // Added in the state via mcpRouter when the response is an SSE stream
+    mcpStream?: PassThrough
   }
 }
 
@@ -100,6 +124,27 @@ export default new Service({
     mcpResourcesRead: method({
       POST: [errorHandler, auth, initialLoad, mcpResourcesRead],
     }),
+    mcpResourceTemplatesList: method({
+      POST: [errorHandler, auth, initialLoad, mcpResourceTemplatesList],
+    }),
+    mcpResourcesSubscribe: method({
+      POST: [errorHandler, auth, initialLoad, mcpResourcesSubscribe],
+    }),
+    mcpResourcesUnsubscribe: method({
+      POST: [errorHandler, auth, initialLoad, mcpResourcesUnsubscribe],
+    }),
+    mcpPromptsList: method({
+      POST: [errorHandler, auth, initialLoad, mcpPromptsList],
+    }),
+    mcpPromptsGet: method({
+      POST: [errorHandler, auth, initialLoad, mcpPromptsGet],
+    }),
+    mcpCompletionComplete: method({
+      POST: [errorHandler, auth, initialLoad, mcpCompletionComplete],
+    }),
+    mcpLoggingSetLevel: method({
+      POST: [errorHandler, auth, initialLoad, mcpLoggingSetLevel],
+    }),
     mcpHandshake: method({
       POST: [errorHandler, auth, initialLoad, mcpHandshake],
     }),
@@ -111,9 +156,13 @@ export default new Service({
     }),
     mcp: method({
       POST: [errorHandler, auth, initialLoad, mcpRouter],
+      GET: [errorHandler, auth, initialLoad, mcpEventStream],
+      DELETE: [errorHandler, auth, initialLoad, mcpSessionDelete],
     }),
     mcpInstance: method({
       POST: [errorHandler, auth, initialLoad, mcpRouter],
+      GET: [errorHandler, auth, initialLoad, mcpEventStream],
+      DELETE: [errorHandler, auth, initialLoad, mcpSessionDelete],
     }),
   },
 })
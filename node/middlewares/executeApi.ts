@@ -2,7 +2,10 @@ import { json } from 'co-body'
 
 import type { MCPExecuteApiRequest, MCPExecuteApiResponse } from '../types/mcp'
 import { MasterDataService } from '../services/masterDataService'
-import { APIExecutor } from '../utils/apiExecutor'
+import {
+  APIExecutor,
+  isRequestBodyValidationFailure,
+} from '../utils/apiExecutor'
 import { RequestValidator } from '../utils/validator'
 import { logToMasterData } from '../utils/logging'
 
@@ -59,6 +62,7 @@ export async function executeApi(ctx: Context, next: () => Promise<any>) {
       queryParams,
       headers,
       body: request.body,
+      skipBodyValidation: !!ctx.state.body?.mcpConfig?.skipBodyValidation,
     })
 
     const response: MCPExecuteApiResponse = {
@@ -80,6 +84,18 @@ export async function executeApi(ctx: Context, next: () => Promise<any>) {
       message: 'API operation executed successfully',
     })
   } catch (error) {
+    // The body doesn't match the operation schema and was not sent
+    if (isRequestBodyValidationFailure(error)) {
+      ctx.status = 400
+      ctx.body = {
+        success: false,
+        error: error.error,
+        validationErrors: error.validationErrors,
+      }
+
+      return
+    }
+
     // Handle validation errors
     if (
       error.message &&
@@ -1,5 +1,6 @@
 import { MasterDataService } from '../services/masterDataService'
 import { logToMasterData } from '../utils/logging'
+import { getOperationIndex } from '../utils/operationIndex'
 
 /**
  * Get API definitions filtered by path param `:group`
@@ -48,35 +49,13 @@ export async function getApiDefinitionsGroup(
       description?: string
     }> = []
 
-    for (const [path, pathItem] of Object.entries(openApiSpec.paths)) {
-      const methods = [
-        'get',
-        'post',
-        'put',
-        'patch',
-        'delete',
-        'options',
-        'head',
-      ]
-
-      for (const m of methods) {
-        const op: any = (pathItem as any)[m]
-
-        if (!op) continue
-
-        // Prefer operation summary/description; fallback to path-level description
-        const pathDescription: string | undefined = (pathItem as any)
-          .description
-
-        const description: string | undefined =
-          op.summary || op.description || pathDescription
-
-        endpoints.push({
-          path,
-          method: m.toUpperCase(),
-          description,
-        })
-      }
+    // Prefer operation summary/description; fallback to path-level description
+    for (const entry of getOperationIndex(openApiSpec).operations) {
+      endpoints.push({
+        path: entry.path,
+        method: entry.method,
+        description: entry.summary || entry.description,
+      })
     }
 
     // Set cache headers
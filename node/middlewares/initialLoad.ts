@@ -31,6 +31,9 @@ export async function initialLoad(
           'description',
           'disabledMethods',
           'excludeFavorites',
+          'pageSize',
+          'confirmOperations',
+          'skipBodyValidation',
         ],
         where: `instance=${instanceValue} AND enabled=true`,
         pagination: {
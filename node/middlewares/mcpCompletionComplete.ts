@@ -0,0 +1,186 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPCompletionCompleteRequest,
+  MCPCompletionCompleteResponse,
+} from '../types/mcp-protocol'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { matchCompletions } from '../utils/completionMatcher'
+import { getCompletionCandidates } from '../utils/completionSources'
+
+const REFERENCE_TYPES = ['ref/prompt', 'ref/resource', 'ref/tool']
+
+/**
+ * MCP Completion/Complete endpoint
+ * POST /_v/mcp_server/v1/mcp/completion/complete
+ */
+export async function mcpCompletionComplete(
+  ctx: Context,
+  next: () => Promise<void>
+) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'completion/complete' and
+    // 'mcp/completion/complete'
+    const validMethods = getValidMethodsForEndpoint('completion/complete')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate params
+    const params = requestBody.params as
+      | MCPCompletionCompleteRequest
+      | undefined
+
+    if (
+      !params?.ref ||
+      !REFERENCE_TYPES.includes(params.ref.type) ||
+      !params.argument ||
+      typeof params.argument.name !== 'string' ||
+      typeof params.argument.value !== 'string'
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message:
+            'Invalid params - ref (ref/prompt, ref/resource or ref/tool) and argument { name, value } are required',
+        },
+      }
+
+      return
+    }
+
+    const candidates = await getCompletionCandidates(ctx, params)
+
+    if (!candidates) {
+      const reference =
+        params.ref.type === 'ref/resource' ? params.ref.uri : params.ref.name
+
+      ctx.status = 404
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Unknown ${params.ref.type} reference: ${reference}`,
+        },
+      }
+
+      return
+    }
+
+    const { values, total, hasMore } = matchCompletions(
+      candidates,
+      params.argument.value
+    )
+
+    const response: MCPCompletionCompleteResponse = {
+      completion: {
+        values,
+        total,
+        hasMore,
+      },
+    }
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: response,
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(ctx, 'mcpCompletionComplete', 'middleware', 'debug', {
+      data: {
+        ref: params.ref,
+        argument: params.argument.name,
+        total,
+      },
+      message: 'MCP completion computed successfully',
+    })
+
+    return next()
+  } catch (error) {
+    await logToMasterData(ctx, 'mcpCompletionComplete', 'middleware', 'error', {
+      error,
+      message: 'Failed to compute MCP completion',
+    })
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { toolsWatcher } from '../services/toolsWatcher'
+import { logToMasterData } from '../utils/logging'
+import {
+  acceptsEventStream,
+  openEventStream,
+  writeComment,
+  writeRetry,
+} from '../utils/sse'
+
+const KEEP_ALIVE_INTERVAL_MS = 15 * 1000
+// Streams are closed before the service timeout (service.json) and the
+// client reconnects after the advertised retry delay
+const MAX_STREAM_DURATION_MS = 45 * 1000
+const RECONNECT_DELAY_MS = 1000
+
+/**
+ * MCP event stream endpoint - opens the server-to-client SSE stream of a session
+ * GET /_v/mcp_server/v1/mcp
+ */
+export async function mcpEventStream(ctx: Context, next: () => Promise<void>) {
+  const {
+    state: {
+      body: { mcpConfig, instance },
+    },
+  } = ctx
+
+  // Check MCP configuration
+  if (!mcpConfig || !mcpConfig.enabled) {
+    ctx.status = 403
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32000,
+        message: mcpConfig
+          ? 'MCP server is disabled for this instance'
+          : 'MCP server not found',
+      },
+    }
+
+    return
+  }
+
+  if (!acceptsEventStream(ctx)) {
+    ctx.status = 406
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32000,
+        message: 'Not Acceptable: client must accept text/event-stream',
+      },
+    }
+
+    return
+  }
+
+  const sessionId = ctx.get('mcp-session-id')
+
+  if (!sessionId) {
+    ctx.status = 400
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32000,
+        message: 'Bad Request: Mcp-Session-Id header is required',
+      },
+    }
+
+    return
+  }
+
+  const sessionStore = getSessionStore(ctx)
+
+  if (!(await sessionRegistry.resolve(sessionStore, sessionId, instance))) {
+    ctx.status = 404
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32001,
+        message: 'Session not found',
+      },
+    }
+
+    return
+  }
+
+  const stream = openEventStream(ctx)
+
+  sessionRegistry.attachStream(sessionId, stream)
+  sessionRegistry.touch(sessionId)
+  writeRetry(stream, RECONNECT_DELAY_MS)
+
+  const keepAlive = setInterval(() => {
+    sessionRegistry.touch(sessionId)
+    writeComment(stream, 'keep-alive')
+
+    // An open stream keeps the session alive for the other workers too
+    sessionRegistry.saveActivity(sessionStore, sessionId).catch((error) =>
+      logToMasterData(ctx, 'mcpEventStream', 'middleware', 'error', {
+        error,
+        message: 'Failed to save MCP session activity',
+      })
+    )
+  }, KEEP_ALIVE_INTERVAL_MS)
+
+  // Favorite changes are detected by the poll shared by the instance streams
+  const unwatchTools = toolsWatcher.watch(ctx, instance, sessionId)
+
+  const maxDuration = setTimeout(() => stream.end(), MAX_STREAM_DURATION_MS)
+
+  const close = () => {
+    clearInterval(keepAlive)
+    unwatchTools()
+    clearTimeout(maxDuration)
+    sessionRegistry.detachStream(sessionId, stream)
+  }
+
+  stream.on('close', close)
+  stream.on('finish', close)
+  ctx.req.on('close', () => stream.end())
+
+  logToMasterData(ctx, 'mcpEventStream', 'middleware', 'debug', {
+    data: {
+      sessionId,
+      instance,
+    },
+    message: 'MCP event stream opened',
+  })
+
+  return next()
+}
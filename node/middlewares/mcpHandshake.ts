@@ -95,7 +95,7 @@ export async function mcpHandshake(ctx: Context, next: () => Promise<void>) {
     const isVersionCompatible = supportedVersions.includes(clientVersion)
 
     // Define server capabilities
-    const serverCapabilities = ['resources', 'tools', 'logging']
+    const serverCapabilities = ['resources', 'tools', 'prompts', 'logging']
 
     // Create handshake response
     const response: MCPHandshakeResponse = {
@@ -6,8 +6,13 @@ import type {
   MCPInitializeRequest,
   MCPInitializeResponse,
 } from '../types/mcp-protocol'
+import { sessionRegistry } from '../services/sessionRegistry'
 import { logToMasterData } from '../utils/logging'
 import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import {
+  isFeatureSupported,
+  negotiateProtocolVersion,
+} from '../utils/protocolVersions'
 
 /**
  * MCP Initialize endpoint
@@ -24,9 +29,7 @@ export async function mcpInitialize(ctx: Context, next: () => Promise<void>) {
       },
     } = ctx
 
-    requestBody =
-      ((ctx.state as any)?.mcpRequest as MCPRequest | undefined) ||
-      ((await json(req)) as MCPRequest)
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
 
     // Check MCP configuration
     if (!mcpConfig || !mcpConfig.enabled) {
@@ -104,27 +107,9 @@ export async function mcpInitialize(ctx: Context, next: () => Promise<void>) {
       return
     }
 
-    // Check protocol version compatibility
-    const supportedVersions = ['2024-11-05', '2025-03-26', '2025-06-18']
-    const supportedVersion = supportedVersions.includes(params.protocolVersion)
-      ? params.protocolVersion
-      : supportedVersions[0]
-
-    if (!supportedVersions.includes(params.protocolVersion)) {
-      ctx.status = 400
-      ctx.body = {
-        jsonrpc: '2.0',
-        id: requestBody.id,
-        error: {
-          code: -32602,
-          message: `Unsupported protocol version. Supported versions: ${supportedVersions.join(
-            ', '
-          )}, Got: ${params.protocolVersion}`,
-        },
-      }
-
-      return
-    }
+    // Answer with the requested version when supported, otherwise with the
+    // latest one; the client decides whether to go on
+    const supportedVersion = negotiateProtocolVersion(params.protocolVersion)
 
     // Create initialize response with server capabilities
     const response: MCPInitializeResponse = {
@@ -134,9 +119,16 @@ export async function mcpInitialize(ctx: Context, next: () => Promise<void>) {
           listChanged: true,
         },
         resources: {
-          subscribe: false,
+          subscribe: true,
           listChanged: true,
         },
+        prompts: {
+          listChanged: false,
+        },
+        ...(isFeatureSupported(supportedVersion, 'completions')
+          ? { completions: {} }
+          : {}),
+        logging: {},
       },
       serverInfo: {
         name: 'VTEX IO MCP Server',
@@ -153,12 +145,24 @@ export async function mcpInitialize(ctx: Context, next: () => Promise<void>) {
     ctx.status = 200
     ctx.body = mcpResponse
 
+    // Record the negotiated version, client info and capabilities
+    const sessionId = ctx.state.mcpSessionId
+
+    if (sessionId) {
+      sessionRegistry.setClient(sessionId, {
+        protocolVersion: supportedVersion,
+        clientInfo: params.clientInfo,
+        clientCapabilities: params.capabilities,
+      })
+    }
+
     // Log the initialization for monitoring
     await logToMasterData(ctx, 'mcpInitialize', 'middleware', 'info', {
       data: {
         clientInfo: params.clientInfo,
         clientCapabilities: params.capabilities,
         protocolVersion: params.protocolVersion,
+        negotiatedVersion: supportedVersion,
       },
       message: 'MCP client initialized successfully',
     })
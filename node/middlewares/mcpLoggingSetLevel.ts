@@ -0,0 +1,169 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPLoggingSetLevelRequest,
+} from '../types/mcp-protocol'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { MCP_LOG_LEVELS, isMCPLogLevel } from '../utils/clientLogging'
+
+/**
+ * MCP Logging/SetLevel endpoint
+ * POST /_v/mcp_server/v1/mcp/logging/setLevel
+ */
+export async function mcpLoggingSetLevel(
+  ctx: Context,
+  next: () => Promise<void>
+) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig, instance },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'logging/setLevel' and 'mcp/logging/setLevel'
+    const validMethods = getValidMethodsForEndpoint('logging/setLevel')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate params
+    const { level } = (requestBody.params || {}) as MCPLoggingSetLevelRequest
+
+    if (!isMCPLogLevel(level)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Invalid params - level must be one of: ${MCP_LOG_LEVELS.join(
+            ', '
+          )}`,
+        },
+      }
+
+      return
+    }
+
+    // The level belongs to a session: use the one resolved by the router
+    // or the Mcp-Session-Id header on the standalone endpoint
+    const sessionId = ctx.state.mcpSessionId ?? ctx.get('mcp-session-id')
+
+    const sessionStore = getSessionStore(ctx)
+
+    if (
+      !sessionId ||
+      !(await sessionRegistry.resolve(sessionStore, sessionId, instance))
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32600,
+          message: 'An MCP session is required to set the log level',
+        },
+      }
+
+      return
+    }
+
+    sessionRegistry.setLogLevel(sessionId, level)
+    await sessionRegistry.save(sessionStore, sessionId)
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: {},
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(ctx, 'mcpLoggingSetLevel', 'middleware', 'info', {
+      data: {
+        sessionId,
+        level,
+      },
+      message: 'MCP log level set',
+    })
+
+    return next()
+  } catch (error) {
+    await logToMasterData(ctx, 'mcpLoggingSetLevel', 'middleware', 'error', {
+      error,
+      message: 'Failed to set MCP log level',
+    })
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPPromptsGetRequest,
+  MCPPromptsGetResponse,
+} from '../types/mcp-protocol'
+import { MasterDataService } from '../services/masterDataService'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import {
+  renderPromptMessages,
+  resolvePromptArguments,
+} from '../utils/promptRenderer'
+
+/**
+ * MCP Prompts/Get endpoint
+ * POST /_v/mcp_server/v1/mcp/prompts/get
+ */
+export async function mcpPromptsGet(ctx: Context, next: () => Promise<void>) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'prompts/get' and 'mcp/prompts/get'
+    const validMethods = getValidMethodsForEndpoint('prompts/get')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate params
+    if (!requestBody.params || !requestBody.params.name) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params - name is required',
+        },
+      }
+
+      return
+    }
+
+    const { name, arguments: args } = requestBody.params as MCPPromptsGetRequest
+
+    if (
+      args !== undefined &&
+      (typeof args !== 'object' || args === null || Array.isArray(args))
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params - arguments must be an object',
+        },
+      }
+
+      return
+    }
+
+    // Load the prompt for this instance (instance prompts override global ones)
+    const instance = ctx.state.body?.instance
+    const masterDataService = new MasterDataService(ctx)
+    const prompt = await masterDataService.getPromptByName(instance, name)
+
+    if (!prompt) {
+      ctx.status = 404
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Prompt '${name}' not found`,
+        },
+      }
+
+      return
+    }
+
+    const { values, errors } = resolvePromptArguments(prompt, args)
+
+    if (errors.length > 0) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Invalid arguments for prompt '${name}'`,
+          data: { errors },
+        },
+      }
+
+      return
+    }
+
+    const response: MCPPromptsGetResponse = {
+      description: prompt.description,
+      messages: renderPromptMessages(prompt, values),
+    }
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: response,
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(ctx, 'mcpPromptsGet', 'middleware', 'info', {
+      data: {
+        instance,
+        name,
+        arguments: Object.keys(values),
+      },
+      message: 'MCP prompt rendered successfully',
+    })
+
+    return next()
+  } catch (error) {
+    await logToMasterData(ctx, 'mcpPromptsGet', 'middleware', 'error', {
+      error,
+      message: 'Failed to get MCP prompt',
+    })
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
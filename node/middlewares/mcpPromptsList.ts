@@ -0,0 +1,129 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPPromptsListResponse,
+} from '../types/mcp-protocol'
+import { MasterDataService } from '../services/masterDataService'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { toMCPPrompt } from '../utils/promptRenderer'
+
+/**
+ * MCP Prompts/List endpoint
+ * POST /_v/mcp_server/v1/mcp/prompts/list
+ */
+export async function mcpPromptsList(ctx: Context, next: () => Promise<void>) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'prompts/list' and 'mcp/prompts/list'
+    const validMethods = getValidMethodsForEndpoint('prompts/list')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Load prompts for this instance (include global)
+    const instance = ctx.state.body?.instance
+    const masterDataService = new MasterDataService(ctx)
+    const prompts = await masterDataService.getPrompts(instance)
+
+    const response: MCPPromptsListResponse = {
+      prompts: prompts.map(toMCPPrompt),
+    }
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: response,
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(ctx, 'mcpPromptsList', 'middleware', 'info', {
+      data: {
+        instance,
+        promptsCount: prompts.length,
+      },
+      message: 'MCP prompts list retrieved successfully',
+    })
+
+    return next()
+  } catch (error) {
+    await logToMasterData(ctx, 'mcpPromptsList', 'middleware', 'error', {
+      error,
+      message: 'Failed to retrieve MCP prompts list',
+    })
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPResourceTemplatesListResponse,
+} from '../types/mcp-protocol'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { RESOURCE_TEMPLATES } from '../utils/resourceUris'
+
+/**
+ * MCP Resources/Templates/List endpoint
+ * POST /_v/mcp_server/v1/mcp/resources/templates/list
+ */
+export async function mcpResourceTemplatesList(
+  ctx: Context,
+  next: () => Promise<void>
+) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'resources/templates/list' and 'mcp/resources/templates/list'
+    const validMethods = getValidMethodsForEndpoint('resources/templates/list')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    const response: MCPResourceTemplatesListResponse = {
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: response,
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(
+      ctx,
+      'mcpResourceTemplatesList',
+      'middleware',
+      'info',
+      {
+        data: {
+          templatesCount: RESOURCE_TEMPLATES.length,
+        },
+        message: 'MCP resource templates list retrieved successfully',
+      }
+    )
+
+    return next()
+  } catch (error) {
+    await logToMasterData(
+      ctx,
+      'mcpResourceTemplatesList',
+      'middleware',
+      'error',
+      {
+        error,
+        message: 'Failed to retrieve MCP resource templates list',
+      }
+    )
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
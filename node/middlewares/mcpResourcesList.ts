@@ -4,10 +4,13 @@ import type {
   MCPRequest,
   MCPResponse,
   MCPResourcesListResponse,
+  MCPPaginatedRequest,
 } from '../types/mcp-protocol'
 import { MasterDataService } from '../services/masterDataService'
 import { logToMasterData } from '../utils/logging'
 import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { getPageSize, paginate } from '../utils/pagination'
+import { buildApiSpecUri } from '../utils/resourceUris'
 
 /**
  * MCP Resources/List endpoint
@@ -28,9 +31,7 @@ export async function mcpResourcesList(
     } = ctx
 
     // Prefer request body passed by upstream router to avoid re-reading the stream
-    requestBody =
-      ((ctx.state as any)?.mcpRequest as MCPRequest | undefined) ||
-      ((await json(req)) as MCPRequest)
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
 
     // Check MCP configuration
     if (!mcpConfig || !mcpConfig.enabled) {
@@ -94,14 +95,38 @@ export async function mcpResourcesList(
 
     // Only include API specification resources; remove path resources
     const resources = specsMetadata.map((spec) => ({
-      uri: `vtex://api-spec/${spec.apiGroup}`,
+      uri: buildApiSpecUri(spec.apiGroup),
       name: `${spec.apiGroup} APIs Operations`,
       description: `Provides a list of VTEX APIs Operations for ${spec.apiGroup} API group`,
       mimeType: 'application/json',
     }))
 
-    const response: MCPResourcesListResponse = {
+    // Return the page that starts at the cursor sent by the client
+    const { cursor } = (requestBody.params || {}) as MCPPaginatedRequest
+    const page = paginate(
+      'resources',
       resources,
+      cursor,
+      getPageSize(mcpConfig)
+    )
+
+    if (!page) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params - invalid cursor',
+        },
+      }
+
+      return
+    }
+
+    const response: MCPResourcesListResponse = {
+      resources: page.items,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
     }
 
     const mcpResponse: MCPResponse = {
@@ -117,6 +142,7 @@ export async function mcpResourcesList(
     await logToMasterData(ctx, 'mcpResourcesList', 'middleware', 'info', {
       data: {
         resourcesCount: resources.length,
+        returnedCount: page.items.length,
         apiGroups: specsMetadata.map((spec) => spec.apiGroup),
       },
       message: 'MCP resources list retrieved successfully',
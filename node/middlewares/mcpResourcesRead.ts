@@ -9,6 +9,21 @@ import type {
 import { MasterDataService } from '../services/masterDataService'
 import { logToMasterData } from '../utils/logging'
 import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import {
+  buildApiOperationUri,
+  buildApiSchemaUri,
+  parseResourceUriVariants,
+} from '../utils/resourceUris'
+import {
+  getIndexedOperation,
+  getIndexedPathItem,
+  getOperationIndex,
+} from '../utils/operationIndex'
+import { deriveToolAnnotations } from '../utils/toolAnnotations'
+import {
+  resolveOperationParameters,
+  resolveRequestBody,
+} from '../utils/refResolver'
 
 /**
  * MCP Resources/Read endpoint
@@ -25,9 +40,7 @@ export async function mcpResourcesRead(ctx: Context, next: () => Promise<any>) {
       },
     } = ctx
 
-    requestBody =
-      ((ctx.state as any)?.mcpRequest as MCPRequest | undefined) ||
-      ((await json(req)) as MCPRequest)
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
 
     // Check if MCP configuration exists and is enabled
     if (!mcpConfig || !mcpConfig.enabled) {
@@ -100,109 +113,187 @@ export async function mcpResourcesRead(ctx: Context, next: () => Promise<any>) {
 
     const { uri } = requestBody.params as MCPResourcesReadRequest
 
+    const parsedUris = parseResourceUriVariants(uri)
+
+    if (parsedUris.length === 0) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Unsupported URI format: ${uri}`,
+        },
+      }
+
+      return
+    }
+
     // Initialize MasterData service
     const masterDataService = new MasterDataService(ctx)
 
-    let content: string
-    let mimeType: string
+    // A URI of the old encoding may read as another group in the current one
+    const specs = await Promise.all(
+      parsedUris.map((parsed) =>
+        masterDataService.getAPISpecByGroup(parsed.group)
+      )
+    )
 
-    // Parse the URI to determine what to return
-    if (uri.startsWith('vtex://api-spec/')) {
-      // Return the same structure as /_v/mcp_server/v1/api-definitions/:group
-      const apiGroup = uri.replace('vtex://api-spec/', '')
+    const found = specs.findIndex(Boolean)
+    const parsedUri = parsedUris[Math.max(found, 0)]
+    const apiGroup = parsedUri.group
+    const specMetadata = specs[found]
 
-      const specMetadata = await masterDataService.getAPISpecByGroup(apiGroup)
+    if (!specMetadata) {
+      ctx.status = 404
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `API group '${apiGroup}' not found`,
+        },
+      }
 
-      if (!specMetadata) {
-        ctx.status = 404
-        ctx.body = {
-          jsonrpc: '2.0',
-          id: requestBody.id,
-          error: {
-            code: -32602,
-            message: `API group '${apiGroup}' not found`,
-          },
-        }
+      return
+    }
 
-        return
-      }
+    // Fetch the full OpenAPI specification
+    const openApiSpec = await masterDataService.fetchSpecFromUrl(
+      specMetadata.specUrl
+    )
 
-      // Fetch the full OpenAPI specification
-      const openApiSpec = await masterDataService.fetchSpecFromUrl(
-        specMetadata.specUrl
-      )
+    // Get disabledMethods from MCP configuration
+    const disabledMethods = mcpConfig?.disabledMethods || []
 
+    let payload: Record<string, any>
+
+    if (parsedUri.kind === 'api-spec') {
+      // Return the same structure as /_v/mcp_server/v1/api-definitions/:group
       // Build endpoints list: one item per method per path
       const endpoints: Array<{
         path: string
         method: string
         operationId?: string
         description?: string
+        uri?: string
       }> = []
 
-      // Get disabledMethods from MCP configuration
-      const disabledMethods = mcpConfig?.disabledMethods || []
-
-      for (const [path, pathItem] of Object.entries(openApiSpec.paths || {})) {
-        const methods = [
-          'get',
-          'post',
-          'put',
-          'patch',
-          'delete',
-          'options',
-          'head',
-        ]
-
-        for (const m of methods) {
-          // Skip disabled methods
-          if (disabledMethods.includes(m.toUpperCase() as any)) {
-            continue
-          }
-
-          const op: any = (pathItem as any)[m]
+      for (const entry of getOperationIndex(openApiSpec).operations) {
+        // Skip disabled methods
+        if (disabledMethods.includes(entry.method as any)) {
+          continue
+        }
 
-          if (!op) continue
+        const { operationId } = entry
+
+        endpoints.push({
+          path: entry.path,
+          method: entry.method,
+          operationId,
+          description: entry.summary || entry.description,
+          uri: operationId
+            ? buildApiOperationUri(specMetadata.apiGroup, operationId)
+            : undefined,
+        })
+      }
 
-          const pathDescription: string | undefined = (pathItem as any)
-            .description
+      // Component schemas can be read one by one through vtex://api-schema/
+      const schemas = Object.keys(openApiSpec.components?.schemas || {}).map(
+        (schemaName) => ({
+          name: schemaName,
+          uri: buildApiSchemaUri(specMetadata.apiGroup, schemaName),
+        })
+      )
 
-          const description: string | undefined =
-            op.summary || op.description || pathDescription
+      payload = {
+        group: specMetadata.apiGroup,
+        version: specMetadata.version,
+        endpoints,
+        schemas,
+      }
+    } else if (parsedUri.kind === 'api-operation') {
+      const entry = getOperationIndex(openApiSpec).findById(
+        parsedUri.operationId
+      )
 
-          const { operationId } = op as any
+      const match = entry && {
+        path: entry.path,
+        method: entry.method,
+        pathItem: getIndexedPathItem(openApiSpec, entry) as any,
+        operation: getIndexedOperation(openApiSpec, entry) as any,
+      }
 
-          endpoints.push({
-            path,
-            method: m.toUpperCase(),
-            operationId,
-            description,
-          })
+      // Disabled methods are hidden the same way as in the endpoints list
+      if (!match || disabledMethods.includes(match.method as any)) {
+        ctx.status = 404
+        ctx.body = {
+          jsonrpc: '2.0',
+          id: requestBody.id,
+          error: {
+            code: -32602,
+            message: `Operation '${parsedUri.operationId}' not found in API group '${apiGroup}'`,
+          },
         }
+
+        return
       }
 
-      const payload = {
+      payload = {
         group: specMetadata.apiGroup,
         version: specMetadata.version,
-        endpoints,
+        operationId: parsedUri.operationId,
+        method: match.method,
+        path: match.path,
+        // Path-level parameters apply to every operation of the path
+        pathParameters: resolveOperationParameters(
+          openApiSpec,
+          undefined,
+          match.pathItem
+        ),
+        // Parameters and request body with their references resolved
+        operation: {
+          ...match.operation,
+          parameters: resolveOperationParameters(openApiSpec, match.operation),
+          ...(match.operation.requestBody
+            ? { requestBody: resolveRequestBody(openApiSpec, match.operation) }
+            : {}),
+        },
+        // The hints a tool calling this operation would carry
+        annotations: deriveToolAnnotations({
+          method: match.method,
+          path: match.path,
+          operation: match.operation,
+        }),
       }
-
-      content = JSON.stringify(payload, null, 2)
-      mimeType = 'application/json'
     } else {
-      ctx.status = 400
-      ctx.body = {
-        jsonrpc: '2.0',
-        id: requestBody.id,
-        error: {
-          code: -32602,
-          message: `Unsupported URI format: ${uri}`,
-        },
+      const schema = openApiSpec.components?.schemas?.[parsedUri.schemaName]
+
+      if (!schema) {
+        ctx.status = 404
+        ctx.body = {
+          jsonrpc: '2.0',
+          id: requestBody.id,
+          error: {
+            code: -32602,
+            message: `Schema '${parsedUri.schemaName}' not found in API group '${apiGroup}'`,
+          },
+        }
+
+        return
       }
 
-      return
+      payload = {
+        group: specMetadata.apiGroup,
+        version: specMetadata.version,
+        schemaName: parsedUri.schemaName,
+        schema,
+      }
     }
 
+    const content = JSON.stringify(payload, null, 2)
+    const mimeType = 'application/json'
+
     const response: MCPResourcesReadResponse = {
       contents: [
         {
@@ -226,6 +317,7 @@ export async function mcpResourcesRead(ctx: Context, next: () => Promise<any>) {
     await logToMasterData(ctx, 'mcpResourcesRead', 'middleware', 'info', {
       data: {
         uri,
+        kind: parsedUri.kind,
         mimeType,
       },
       message: 'MCP resource read successfully',
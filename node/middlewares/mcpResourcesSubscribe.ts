@@ -0,0 +1,183 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPResourcesSubscribeRequest,
+} from '../types/mcp-protocol'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { parseResourceUriVariants } from '../utils/resourceUris'
+
+/**
+ * MCP Resources/Subscribe endpoint
+ * POST /_v/mcp_server/v1/mcp/resources/subscribe
+ */
+export async function mcpResourcesSubscribe(
+  ctx: Context,
+  next: () => Promise<void>
+) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig, instance },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'resources/subscribe' and 'mcp/resources/subscribe'
+    const validMethods = getValidMethodsForEndpoint('resources/subscribe')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate params
+    if (!requestBody.params || !requestBody.params.uri) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params - uri is required',
+        },
+      }
+
+      return
+    }
+
+    const { uri } = requestBody.params as MCPResourcesSubscribeRequest
+
+    if (parseResourceUriVariants(uri).length === 0) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Unsupported URI format: ${uri}`,
+        },
+      }
+
+      return
+    }
+
+    // Subscriptions belong to a session: use the one resolved by the router
+    // or the Mcp-Session-Id header on the standalone endpoint
+    const sessionId = ctx.state.mcpSessionId ?? ctx.get('mcp-session-id')
+
+    const sessionStore = getSessionStore(ctx)
+
+    if (
+      !sessionId ||
+      !(await sessionRegistry.resolve(sessionStore, sessionId, instance))
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32600,
+          message: 'An MCP session is required to subscribe to resources',
+        },
+      }
+
+      return
+    }
+
+    // Subscriptions to groups that are not uploaded yet are accepted, so
+    // clients get notified once the specification is uploaded
+    sessionRegistry.subscribe(sessionId, uri)
+    await sessionRegistry.save(sessionStore, sessionId)
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: {},
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(ctx, 'mcpResourcesSubscribe', 'middleware', 'info', {
+      data: {
+        sessionId,
+        uri,
+      },
+      message: 'MCP resource subscription created',
+    })
+
+    return next()
+  } catch (error) {
+    await logToMasterData(ctx, 'mcpResourcesSubscribe', 'middleware', 'error', {
+      error,
+      message: 'Failed to subscribe to MCP resource',
+    })
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
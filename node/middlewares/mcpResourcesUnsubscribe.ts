@@ -0,0 +1,197 @@
+import { json } from 'co-body'
+
+import type {
+  MCPRequest,
+  MCPResponse,
+  MCPResourcesSubscribeRequest,
+} from '../types/mcp-protocol'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { logToMasterData } from '../utils/logging'
+import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { parseResourceUriVariants } from '../utils/resourceUris'
+
+/**
+ * MCP Resources/Unsubscribe endpoint
+ * POST /_v/mcp_server/v1/mcp/resources/unsubscribe
+ */
+export async function mcpResourcesUnsubscribe(
+  ctx: Context,
+  next: () => Promise<void>
+) {
+  let requestBody: MCPRequest | null = null
+
+  try {
+    const {
+      req,
+      state: {
+        body: { mcpConfig, instance },
+      },
+    } = ctx
+
+    // Prefer request body passed by upstream router to avoid re-reading the stream
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
+
+    // Check MCP configuration
+    if (!mcpConfig || !mcpConfig.enabled) {
+      ctx.status = 403
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32000,
+          message: mcpConfig
+            ? 'MCP server is disabled for this instance'
+            : 'MCP server not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate JSON-RPC request
+    if (
+      !requestBody ||
+      requestBody.jsonrpc !== '2.0' ||
+      requestBody.id === undefined ||
+      requestBody.id === null
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id || null,
+        error: {
+          code: -32600,
+          message: 'Invalid Request',
+        },
+      }
+
+      return
+    }
+
+    // Validate method - accept both 'resources/unsubscribe' and 'mcp/resources/unsubscribe'
+    const validMethods = getValidMethodsForEndpoint('resources/unsubscribe')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Validate params
+    if (!requestBody.params || !requestBody.params.uri) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params - uri is required',
+        },
+      }
+
+      return
+    }
+
+    const { uri } = requestBody.params as MCPResourcesSubscribeRequest
+
+    if (parseResourceUriVariants(uri).length === 0) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: `Unsupported URI format: ${uri}`,
+        },
+      }
+
+      return
+    }
+
+    // Subscriptions belong to a session: use the one resolved by the router
+    // or the Mcp-Session-Id header on the standalone endpoint
+    const sessionId = ctx.state.mcpSessionId ?? ctx.get('mcp-session-id')
+
+    const sessionStore = getSessionStore(ctx)
+
+    if (
+      !sessionId ||
+      !(await sessionRegistry.resolve(sessionStore, sessionId, instance))
+    ) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32600,
+          message: 'An MCP session is required to unsubscribe from resources',
+        },
+      }
+
+      return
+    }
+
+    const wasSubscribed = sessionRegistry.unsubscribe(sessionId, uri)
+
+    if (wasSubscribed) {
+      await sessionRegistry.save(sessionStore, sessionId)
+    }
+
+    const mcpResponse: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      result: {},
+    }
+
+    ctx.status = 200
+    ctx.body = mcpResponse
+
+    // Log the request for monitoring
+    await logToMasterData(
+      ctx,
+      'mcpResourcesUnsubscribe',
+      'middleware',
+      'info',
+      {
+        data: {
+          sessionId,
+          uri,
+          wasSubscribed,
+        },
+        message: 'MCP resource subscription removed',
+      }
+    )
+
+    return next()
+  } catch (error) {
+    await logToMasterData(
+      ctx,
+      'mcpResourcesUnsubscribe',
+      'middleware',
+      'error',
+      {
+        error,
+        message: 'Failed to unsubscribe from MCP resource',
+      }
+    )
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody?.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
@@ -1,18 +1,68 @@
 import { json } from 'co-body'
 
-import type { MCPRequest } from '../types/mcp-protocol'
+import type {
+  MCPCancelledNotification,
+  MCPRequest,
+  MCPResponse,
+} from '../types/mcp-protocol'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { pendingServerRequests } from '../services/pendingServerRequests'
+import {
+  InFlightRequests,
+  inFlightRequests,
+} from '../services/inFlightRequests'
 import { logToMasterData } from '../utils/logging'
 import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
-import { mapHttpErrorToMCP } from '../utils/errorMapper'
+import {
+  buildToolErrorResult,
+  buildValidationErrorResult,
+  mapHttpErrorToMCP,
+} from '../utils/errorMapper'
+import {
+  isAPIRequestFailure,
+  isRequestBodyValidationFailure,
+} from '../utils/apiExecutor'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { acceptsEventStream, openEventStream, writeEvent } from '../utils/sse'
+import { getProtocolVersion, supportsFeature } from '../utils/protocolVersions'
 import { mcpInitialize } from './mcpInitialize'
 import { mcpToolsList } from './mcpToolsList'
 import { mcpToolsCall } from './mcpToolsCall'
 import { mcpResourcesList } from './mcpResourcesList'
 import { mcpResourcesRead } from './mcpResourcesRead'
+import { mcpResourceTemplatesList } from './mcpResourceTemplatesList'
+import { mcpResourcesSubscribe } from './mcpResourcesSubscribe'
+import { mcpResourcesUnsubscribe } from './mcpResourcesUnsubscribe'
+import { mcpPromptsList } from './mcpPromptsList'
+import { mcpPromptsGet } from './mcpPromptsGet'
+import { mcpCompletionComplete } from './mcpCompletionComplete'
+import { mcpLoggingSetLevel } from './mcpLoggingSetLevel'
+
+// Maximum number of batch entries processed at the same time
+const MAX_BATCH_CONCURRENCY = 4
+
+// Messages accepted before the session is ready
+const LIFECYCLE_METHODS = [
+  ...getValidMethodsForEndpoint('initialize'),
+  ...getValidMethodsForEndpoint('notifications/initialized'),
+  ...getValidMethodsForEndpoint('notifications/cancelled'),
+  ...getValidMethodsForEndpoint('handshake'),
+]
+
+interface DispatchResult {
+  status: number
+  body: any
+}
 
 /**
  * MCP Router endpoint - handles generic JSON-RPC requests
  * POST /_v/mcp_server/v1/mcp
+ *
+ * Implements the POST side of the Streamable HTTP transport: requests are
+ * answered with a JSON body, or with an SSE stream when the client accepts
+ * `text/event-stream`, and notifications are acknowledged with HTTP 202.
+ * JSON-RPC batches (arrays of messages) are accepted as well.
  */
 export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
   logToMasterData(ctx, 'mcpRouter-info', '', 'info', {
@@ -29,14 +79,14 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
     const {
       req,
       state: {
-        body: { mcpConfig },
+        body: { mcpConfig, instance },
       },
     } = ctx
 
-    requestBody = (await json(req)) as MCPRequest
+    const payload = (await json(req)) as MCPRequest | MCPRequest[]
 
     await logToMasterData(ctx, 'mcpRouter-request', '', 'debug', {
-      requestBody,
+      requestBody: payload,
       message: 'mcpRouter request parsed',
     })
 
@@ -45,7 +95,7 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
       ctx.status = 403
       ctx.body = {
         jsonrpc: '2.0',
-        id: requestBody.id ?? null,
+        id: (payload as MCPRequest)?.id ?? null,
         error: {
           code: -32000,
           message: mcpConfig
@@ -57,6 +107,15 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
       return
     }
 
+    // JSON-RPC batch: an array of requests and notifications
+    if (Array.isArray(payload)) {
+      await handleBatch(ctx, payload)
+
+      return next()
+    }
+
+    requestBody = payload
+
     // Validate JSON-RPC request
     if (!requestBody || requestBody.jsonrpc !== '2.0') {
       ctx.status = 400
@@ -72,6 +131,19 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
       return
     }
 
+    // Responses to requests sent by the server, e.g. elicitation/create
+    if (isClientResponse(requestBody)) {
+      if (!(await resolveSession(ctx, null))) {
+        return
+      }
+
+      handleClientResponse(ctx, requestBody as MCPResponse)
+
+      ctx.status = 202
+
+      return next()
+    }
+
     // Check if this is a notification (no id) or a request (must have id)
     const isNotification = !('id' in requestBody)
     const isRequest = 'id' in requestBody
@@ -96,6 +168,22 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
 
     // Route the request based on the method
     const { method } = requestBody
+    const isInitialize =
+      getValidMethodsForEndpoint('initialize').includes(method)
+
+    // Every message but initialize belongs to the session it issued
+    const sessionId = ctx.get('mcp-session-id')
+
+    if (
+      !isInitialize &&
+      !(await resolveSession(
+        ctx,
+        requestBody.id ?? null,
+        !getValidMethodsForEndpoint('handshake').includes(method)
+      ))
+    ) {
+      return
+    }
 
     // Log the incoming request
     await logToMasterData(ctx, 'mcpRouter', 'middleware', 'debug', {
@@ -105,84 +193,86 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
         hasParams: !!requestBody.params,
         isNotification,
         isRequest,
+        sessionId,
       },
       message: `Routing MCP ${
         isNotification ? 'notification' : 'request'
       }: ${method}`,
     })
 
-    // Route to appropriate handler based on method
-    switch (method) {
-      case 'initialize':
-        await handleInitialize(ctx, requestBody)
-        break
-
-      case 'mcp/initialize':
-        await handleInitialize(ctx, requestBody)
-        break
-
-      case 'tools/list':
-        await handleToolsList(ctx, requestBody)
-        break
-
-      case 'mcp/tools/list':
-        await handleToolsList(ctx, requestBody)
-        break
-
-      case 'tools/call':
-        await handleToolsCall(ctx, requestBody)
-        break
-
-      case 'mcp/tools/call':
-        await handleToolsCall(ctx, requestBody)
-        break
-
-      case 'resources/list':
-        await handleResourcesList(ctx, requestBody)
-        break
-
-      case 'mcp/resources/list':
-        await handleResourcesList(ctx, requestBody)
-        break
-
-      case 'resources/read':
-        await handleResourcesRead(ctx, requestBody)
-        break
-
-      case 'mcp/resources/read':
-        await handleResourcesRead(ctx, requestBody)
-        break
-
-      case 'notifications/initialized':
-        await handleInitialized(ctx, requestBody)
-        break
-
-      case 'mcp/notifications/initialized':
-        await handleInitialized(ctx, requestBody)
-        break
-
-      case 'handshake':
-        await handleHandshake(ctx, requestBody)
-        break
-
-      case 'mcp/handshake':
-        await handleHandshake(ctx, requestBody)
-        break
-
-      default:
-        ctx.status = 400
-        ctx.body = {
-          jsonrpc: '2.0',
-          id: requestBody.id,
-          error: {
-            code: -32601,
-            message: 'Method not found',
-          },
-        }
+    // Notifications are acknowledged without a response body
+    if (isNotification) {
+      await dispatchMCPRequest(ctx, requestBody)
 
-        return
+      ctx.status = 202
+
+      return next()
+    }
+
+    if (isInitialize) {
+      // Issue a new session; the client must send it back on every request
+      const session = await sessionRegistry.create(
+        getSessionStore(ctx),
+        instance
+      )
+
+      ctx.state.mcpSessionId = session.id
+
+      const { status, body } = await dispatchMCPRequest(ctx, requestBody)
+
+      if (status === 200 && !body?.error) {
+        await sessionRegistry.save(getSessionStore(ctx), session.id)
+        ctx.set('Mcp-Session-Id', session.id)
+      } else {
+        sessionRegistry.remove(session.id)
+      }
+
+      ctx.status = status
+      ctx.body = body
+
+      return next()
+    }
+
+    if (acceptsEventStream(ctx)) {
+      // Answer through an SSE stream so notifications sent while the request
+      // is processed reach the client before the response. Cancelled
+      // requests have no response and just close the stream.
+      const stream = openEventStream(ctx)
+      const streamedRequest = requestBody
+
+      ctx.state.mcpStream = stream
+
+      dispatchMCPRequest(ctx, streamedRequest)
+        .then(({ body }) => {
+          if (body) {
+            writeEvent(stream, body)
+          }
+        })
+        .catch(async (error) => {
+          await logToMasterData(ctx, 'mcpRouter', 'middleware', 'error', {
+            error,
+            message: 'Failed to stream MCP response',
+          })
+
+          writeEvent(stream, {
+            jsonrpc: '2.0',
+            id: streamedRequest.id,
+            error: {
+              code: -32603,
+              message: 'Internal error',
+            },
+          })
+        })
+        .finally(() => stream.end())
+
+      return next()
     }
 
+    const { status, body } = await dispatchMCPRequest(ctx, requestBody)
+
+    ctx.status = status
+    ctx.body = body
+
     return next()
   } catch (error) {
     await logToMasterData(ctx, 'mcpRouter', 'middleware', 'error', {
@@ -202,11 +292,479 @@ export async function mcpRouter(ctx: Context, next: () => Promise<void>) {
   }
 }
 
-// Handler functions that implement the logic directly
+/**
+ * Handles a JSON-RPC batch. Entries are dispatched through the same handlers
+ * as single messages, with bounded concurrency, and the response array
+ * leaves notifications out.
+ */
+async function handleBatch(ctx: Context, messages: MCPRequest[]) {
+  if (messages.length === 0) {
+    ctx.status = 400
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32600,
+        message: 'Invalid Request: batch must not be empty',
+      },
+    }
+
+    return
+  }
+
+  if (!(await resolveSession(ctx, null))) {
+    return
+  }
+
+  // Batches only exist in some protocol versions
+  if (!supportsFeature(ctx, 'batching')) {
+    ctx.status = 400
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32600,
+        message: `Invalid Request: batches are not supported in protocol version ${
+          getProtocolVersion(ctx) ?? 'unknown'
+        }`,
+      },
+    }
+
+    return
+  }
+
+  await logToMasterData(ctx, 'mcpRouter', 'middleware', 'debug', {
+    data: {
+      size: messages.length,
+      methods: messages.map((message) => message?.method),
+    },
+    message: `Routing MCP batch of ${messages.length} messages`,
+  })
+
+  const dispatchEntry = async (
+    message: MCPRequest
+  ): Promise<MCPResponse | null> => {
+    const invalidResponse = validateBatchEntry(message)
+
+    if (invalidResponse) {
+      return invalidResponse
+    }
+
+    if (isClientResponse(message)) {
+      handleClientResponse(ctx, message as MCPResponse)
+
+      return null
+    }
+
+    const { body } = await dispatchMCPRequest(ctx, message)
+
+    // Notifications never produce a response
+    if (!('id' in message) || !body) {
+      return null
+    }
+
+    return body as MCPResponse
+  }
+
+  const hasRequests = messages.some(
+    (message) =>
+      !message ||
+      typeof message !== 'object' ||
+      ('id' in message && !isClientResponse(message))
+  )
+
+  if (!hasRequests) {
+    await mapWithConcurrency(messages, MAX_BATCH_CONCURRENCY, dispatchEntry)
+
+    ctx.status = 202
+
+    return
+  }
+
+  if (acceptsEventStream(ctx)) {
+    // Each response is streamed as soon as its entry completes
+    const stream = openEventStream(ctx)
+
+    ctx.state.mcpStream = stream
+
+    mapWithConcurrency(messages, MAX_BATCH_CONCURRENCY, async (message) => {
+      const response = await dispatchEntry(message)
+
+      if (response) {
+        writeEvent(stream, response)
+      }
+    })
+      .catch((error) =>
+        logToMasterData(ctx, 'mcpRouter', 'middleware', 'error', {
+          error,
+          message: 'Failed to stream MCP batch responses',
+        })
+      )
+      .finally(() => stream.end())
+
+    return
+  }
+
+  const responses = await mapWithConcurrency(
+    messages,
+    MAX_BATCH_CONCURRENCY,
+    dispatchEntry
+  )
+
+  ctx.status = 200
+  ctx.body = responses.filter((response) => response !== null)
+}
+
+/**
+ * Validates a single batch entry, returning the error response to send back
+ * for it, or null when the entry can be dispatched
+ */
+function validateBatchEntry(message: MCPRequest): MCPResponse | null {
+  if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') {
+    return {
+      jsonrpc: '2.0',
+      id: (message as MCPRequest)?.id ?? null,
+      error: {
+        code: -32600,
+        message: 'Invalid Request',
+      },
+    }
+  }
+
+  if ('id' in message && (message.id === undefined || message.id === null)) {
+    return {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32600,
+        message: 'Invalid Request: id is required for requests',
+      },
+    }
+  }
+
+  // The session must exist before any other message can be batched with it
+  if (getValidMethodsForEndpoint('initialize').includes(message.method)) {
+    return {
+      jsonrpc: '2.0',
+      id: message.id ?? null,
+      error: {
+        code: -32600,
+        message: 'Invalid Request: initialize must not be part of a batch',
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Checks if a message is a JSON-RPC response (no method, with a result or
+ * an error) rather than a request or notification
+ */
+function isClientResponse(message: MCPRequest): boolean {
+  return (
+    !!message &&
+    typeof message === 'object' &&
+    !('method' in message) &&
+    ('result' in message || 'error' in message)
+  )
+}
+
+/**
+ * Delivers a client response to the server request waiting for it. Responses
+ * without a session or to unknown requests are ignored.
+ */
+function handleClientResponse(ctx: Context, response: MCPResponse) {
+  const sessionId = ctx.state.mcpSessionId
+  const delivered =
+    !!sessionId && pendingServerRequests.resolve(sessionId, response)
+
+  logToMasterData(ctx, 'mcpRouter', 'middleware', 'debug', {
+    data: {
+      id: response.id,
+      sessionId,
+      delivered,
+    },
+    message: delivered
+      ? 'MCP client response delivered'
+      : 'MCP client response ignored: no pending request',
+  })
+}
+
+/**
+ * Resolves the session sent in the Mcp-Session-Id header, from this worker
+ * or from the session store. Writes a 400 response when the header is
+ * missing but required, and a 404 response when the session is unknown or
+ * expired.
+ * @param required - False for the messages that can be sent without session
+ * @returns False if the request must not be processed
+ */
+async function resolveSession(
+  ctx: Context,
+  id: string | number | null,
+  required = true
+): Promise<boolean> {
+  const {
+    state: {
+      body: { instance },
+    },
+  } = ctx
+
+  const sessionId = ctx.get('mcp-session-id')
+
+  if (!sessionId) {
+    if (!required) {
+      return true
+    }
+
+    ctx.status = 400
+    ctx.body = {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32000,
+        message: 'Bad Request: Mcp-Session-Id header is required',
+      },
+    }
+
+    return false
+  }
+
+  const store = getSessionStore(ctx)
+
+  if (!(await sessionRegistry.resolve(store, sessionId, instance))) {
+    ctx.status = 404
+    ctx.body = {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32001,
+        message: 'Session not found',
+      },
+    }
+
+    return false
+  }
+
+  sessionRegistry.touch(sessionId)
+  await sessionRegistry.saveActivity(store, sessionId)
+  ctx.state.mcpSessionId = sessionId
+
+  return true
+}
+
+/**
+ * Checks if a message can be processed in the state of its session. Until
+ * the client sends notifications/initialized, only lifecycle messages are
+ * accepted.
+ */
+async function isAllowedBeforeReady(
+  ctx: Context,
+  method: string
+): Promise<boolean> {
+  const sessionId = ctx.state.mcpSessionId
+  const { instance } = ctx.state.body
+
+  if (!sessionId || LIFECYCLE_METHODS.includes(method)) {
+    return true
+  }
+
+  if (sessionRegistry.get(sessionId, instance)?.ready) {
+    return true
+  }
+
+  // notifications/initialized may have been handled by another worker
+  const session = await sessionRegistry.reload(
+    getSessionStore(ctx),
+    sessionId,
+    instance
+  )
+
+  return !!session?.ready
+}
+
+/**
+ * Creates a context that shares clients and request data with the original
+ * one but keeps its own status, body and state, so handlers can run while
+ * the original response is being streamed
+ */
+function createDispatchContext(ctx: Context): Context {
+  const dispatchCtx = Object.create(ctx)
+
+  Object.defineProperties(dispatchCtx, {
+    status: { value: 200, writable: true },
+    body: { value: undefined, writable: true },
+    state: { value: { ...ctx.state }, writable: true },
+  })
+
+  return dispatchCtx as Context
+}
+
+/**
+ * Routes a JSON-RPC message to its handler and returns the handler output
+ */
+async function dispatchMCPRequest(
+  ctx: Context,
+  requestBody: MCPRequest
+): Promise<DispatchResult> {
+  const dispatchCtx = createDispatchContext(ctx)
+
+  if (!(await isAllowedBeforeReady(ctx, requestBody.method))) {
+    return {
+      status: 400,
+      body: {
+        jsonrpc: '2.0',
+        id: requestBody.id ?? null,
+        error: {
+          code: -32600,
+          message:
+            'Invalid Request: session is not initialized, send notifications/initialized first',
+        },
+      },
+    }
+  }
+
+  // Route to appropriate handler based on method
+  switch (requestBody.method) {
+    case 'initialize':
+      await handleInitialize(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/initialize':
+      await handleInitialize(dispatchCtx, requestBody)
+      break
+
+    case 'tools/list':
+      await handleToolsList(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/tools/list':
+      await handleToolsList(dispatchCtx, requestBody)
+      break
+
+    case 'tools/call':
+      await handleToolsCall(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/tools/call':
+      await handleToolsCall(dispatchCtx, requestBody)
+      break
+
+    case 'resources/list':
+      await handleResourcesList(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/resources/list':
+      await handleResourcesList(dispatchCtx, requestBody)
+      break
+
+    case 'resources/read':
+      await handleResourcesRead(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/resources/read':
+      await handleResourcesRead(dispatchCtx, requestBody)
+      break
+
+    case 'resources/templates/list':
+      await handleResourceTemplatesList(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/resources/templates/list':
+      await handleResourceTemplatesList(dispatchCtx, requestBody)
+      break
+
+    case 'resources/subscribe':
+      await handleResourcesSubscribe(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/resources/subscribe':
+      await handleResourcesSubscribe(dispatchCtx, requestBody)
+      break
+
+    case 'resources/unsubscribe':
+      await handleResourcesUnsubscribe(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/resources/unsubscribe':
+      await handleResourcesUnsubscribe(dispatchCtx, requestBody)
+      break
+
+    case 'prompts/list':
+      await handlePromptsList(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/prompts/list':
+      await handlePromptsList(dispatchCtx, requestBody)
+      break
+
+    case 'prompts/get':
+      await handlePromptsGet(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/prompts/get':
+      await handlePromptsGet(dispatchCtx, requestBody)
+      break
+
+    case 'completion/complete':
+      await handleCompletionComplete(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/completion/complete':
+      await handleCompletionComplete(dispatchCtx, requestBody)
+      break
+
+    case 'logging/setLevel':
+      await handleLoggingSetLevel(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/logging/setLevel':
+      await handleLoggingSetLevel(dispatchCtx, requestBody)
+      break
+
+    case 'notifications/initialized':
+      await handleInitialized(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/notifications/initialized':
+      await handleInitialized(dispatchCtx, requestBody)
+      break
+
+    case 'notifications/cancelled':
+      await handleCancelled(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/notifications/cancelled':
+      await handleCancelled(dispatchCtx, requestBody)
+      break
+
+    case 'handshake':
+      await handleHandshake(dispatchCtx, requestBody)
+      break
+
+    case 'mcp/handshake':
+      await handleHandshake(dispatchCtx, requestBody)
+      break
+
+    default:
+      dispatchCtx.status = 400
+      dispatchCtx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+  }
+
+  return { status: dispatchCtx.status, body: dispatchCtx.body }
+}
+
 async function handleInitialize(ctx: Context, requestBody: MCPRequest) {
   try {
     // Delegate to the existing HTTP middleware to avoid duplication
-    ;(ctx.state as any).mcpRequest = requestBody
+    ctx.state.mcpRequest = requestBody
     await mcpInitialize(ctx, async () => {})
   } catch (error) {
     logToMasterData(ctx, 'handleInitialize-error', '', 'error', {
@@ -246,7 +804,7 @@ async function handleToolsList(ctx: Context, requestBody: MCPRequest) {
     }
 
     // Delegate to the existing HTTP middleware to avoid duplication
-    ;(ctx.state as any).mcpRequest = requestBody
+    ctx.state.mcpRequest = requestBody
     await mcpToolsList(ctx, async () => {})
   } catch (error) {
     logToMasterData(ctx, 'handleToolsList-error', '', 'error', {
@@ -286,7 +844,7 @@ async function handleToolsCall(ctx: Context, requestBody: MCPRequest) {
     }
 
     // Delegate to the existing HTTP middleware to avoid duplication
-    ;(ctx.state as any).mcpRequest = requestBody
+    ctx.state.mcpRequest = requestBody
     await mcpToolsCall(ctx, async () => {})
   } catch (error) {
     logToMasterData(ctx, 'handleToolsCall-error', '', 'error', {
@@ -294,6 +852,29 @@ async function handleToolsCall(ctx: Context, requestBody: MCPRequest) {
       message: 'Failed to execute MCP tool call via router',
     })
 
+    // VTEX API failures are tool errors, not protocol errors
+    if (isAPIRequestFailure(error)) {
+      ctx.status = 200
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        result: buildToolErrorResult(error),
+      }
+
+      return
+    }
+
+    if (isRequestBodyValidationFailure(error)) {
+      ctx.status = 200
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        result: buildValidationErrorResult(error),
+      }
+
+      return
+    }
+
     const mcpError = mapHttpErrorToMCP(error)
 
     // Use the HTTP status code from the error, or default to 500
@@ -333,7 +914,7 @@ async function handleResourcesList(ctx: Context, requestBody: MCPRequest) {
     }
 
     // Delegate to the existing HTTP middleware to avoid duplication
-    ;(ctx.state as any).mcpRequest = requestBody
+    ctx.state.mcpRequest = requestBody
     await mcpResourcesList(ctx, async () => {})
   } catch (error) {
     logToMasterData(ctx, 'handleResourcesList-error', '', 'error', {
@@ -372,7 +953,7 @@ async function handleResourcesRead(ctx: Context, requestBody: MCPRequest) {
     }
 
     // Delegate to the existing HTTP middleware to avoid duplication
-    ;(ctx.state as any).mcpRequest = requestBody
+    ctx.state.mcpRequest = requestBody
     await mcpResourcesRead(ctx, async () => {})
   } catch (error) {
     logToMasterData(ctx, 'handleResourcesRead-error', '', 'error', {
@@ -392,8 +973,297 @@ async function handleResourcesRead(ctx: Context, requestBody: MCPRequest) {
   }
 }
 
+async function handleResourceTemplatesList(
+  ctx: Context,
+  requestBody: MCPRequest
+) {
+  try {
+    // Validate method - accept both 'resources/templates/list' and
+    // 'mcp/resources/templates/list'
+    const validMethods = getValidMethodsForEndpoint('resources/templates/list')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpResourceTemplatesList(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handleResourceTemplatesList-error', '', 'error', {
+      error,
+      message: 'Failed to retrieve MCP resource templates list via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
+async function handleResourcesSubscribe(ctx: Context, requestBody: MCPRequest) {
+  try {
+    // Validate method - accept both 'resources/subscribe' and 'mcp/resources/subscribe'
+    const validMethods = getValidMethodsForEndpoint('resources/subscribe')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpResourcesSubscribe(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handleResourcesSubscribe-error', '', 'error', {
+      error,
+      message: 'Failed to subscribe to MCP resource via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
+async function handleResourcesUnsubscribe(
+  ctx: Context,
+  requestBody: MCPRequest
+) {
+  try {
+    // Validate method - accept both 'resources/unsubscribe' and 'mcp/resources/unsubscribe'
+    const validMethods = getValidMethodsForEndpoint('resources/unsubscribe')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpResourcesUnsubscribe(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handleResourcesUnsubscribe-error', '', 'error', {
+      error,
+      message: 'Failed to unsubscribe from MCP resource via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
+async function handlePromptsList(ctx: Context, requestBody: MCPRequest) {
+  try {
+    // Validate method - accept both 'prompts/list' and 'mcp/prompts/list'
+    const validMethods = getValidMethodsForEndpoint('prompts/list')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpPromptsList(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handlePromptsList-error', '', 'error', {
+      error,
+      message: 'Failed to retrieve MCP prompts list via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
+async function handlePromptsGet(ctx: Context, requestBody: MCPRequest) {
+  try {
+    // Validate method - accept both 'prompts/get' and 'mcp/prompts/get'
+    const validMethods = getValidMethodsForEndpoint('prompts/get')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpPromptsGet(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handlePromptsGet-error', '', 'error', {
+      error,
+      message: 'Failed to get MCP prompt via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
+async function handleCompletionComplete(ctx: Context, requestBody: MCPRequest) {
+  try {
+    // Validate method - accept both 'completion/complete' and
+    // 'mcp/completion/complete'
+    const validMethods = getValidMethodsForEndpoint('completion/complete')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpCompletionComplete(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handleCompletionComplete-error', '', 'error', {
+      error,
+      message: 'Failed to compute MCP completion via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
+async function handleLoggingSetLevel(ctx: Context, requestBody: MCPRequest) {
+  try {
+    // Validate method - accept both 'logging/setLevel' and 'mcp/logging/setLevel'
+    const validMethods = getValidMethodsForEndpoint('logging/setLevel')
+
+    if (!validMethods.includes(requestBody.method)) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+        },
+      }
+
+      return
+    }
+
+    // Delegate to the existing HTTP middleware to avoid duplication
+    ctx.state.mcpRequest = requestBody
+    await mcpLoggingSetLevel(ctx, async () => {})
+  } catch (error) {
+    logToMasterData(ctx, 'handleLoggingSetLevel-error', '', 'error', {
+      error,
+      message: 'Failed to set MCP log level via router',
+    })
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
 async function handleInitialized(ctx: Context, requestBody: MCPRequest) {
   try {
+    const sessionId = ctx.state.mcpSessionId
+
+    // The session accepts every request from now on
+    if (sessionId) {
+      sessionRegistry.markReady(sessionId)
+      await sessionRegistry.save(getSessionStore(ctx), sessionId)
+    }
+
     // For notifications, we don't send a response body
     ctx.status = 200
   } catch (error) {
@@ -414,6 +1284,57 @@ async function handleInitialized(ctx: Context, requestBody: MCPRequest) {
   }
 }
 
+async function handleCancelled(ctx: Context, requestBody: MCPRequest) {
+  try {
+    const params = (requestBody.params || {}) as MCPCancelledNotification
+
+    // Notifications get no response; an invalid or unknown id is ignored
+    ctx.status = 200
+
+    if (
+      typeof params.requestId !== 'string' &&
+      typeof params.requestId !== 'number'
+    ) {
+      return
+    }
+
+    // Request ids are scoped like in tools/call
+    const cancelled = inFlightRequests.cancel(
+      InFlightRequests.key(
+        ctx.state.mcpSessionId ?? ctx.state.body.instance,
+        params.requestId
+      ),
+      params.reason
+    )
+
+    logToMasterData(ctx, 'handleCancelled', '', 'info', {
+      data: {
+        requestId: params.requestId,
+        reason: params.reason,
+        cancelled,
+      },
+      message: cancelled
+        ? 'MCP request cancelled by the client'
+        : 'MCP cancellation ignored: request not in flight',
+    })
+  } catch (error) {
+    logToMasterData(ctx, 'handleCancelled-error', '', 'error', {
+      error,
+      message: 'Failed to process MCP cancelled notification via router',
+    })
+
+    ctx.status = 500
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: requestBody.id || null,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+      },
+    }
+  }
+}
+
 async function handleHandshake(ctx: Context, requestBody: MCPRequest) {
   try {
     // Validate method - accept both 'mcp/handshake' and 'handshake'
@@ -443,7 +1364,7 @@ async function handleHandshake(ctx: Context, requestBody: MCPRequest) {
     const isVersionCompatible = supportedVersions.includes(clientVersion)
 
     // Define server capabilities
-    const serverCapabilities = ['resources', 'tools', 'logging']
+    const serverCapabilities = ['resources', 'tools', 'prompts', 'logging']
 
     // Create handshake response
     const response = {
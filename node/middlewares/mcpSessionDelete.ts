@@ -0,0 +1,65 @@
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { logToMasterData } from '../utils/logging'
+
+/**
+ * MCP session termination endpoint - ends a session and closes its streams
+ * DELETE /_v/mcp_server/v1/mcp
+ */
+export async function mcpSessionDelete(
+  ctx: Context,
+  next: () => Promise<void>
+) {
+  const {
+    state: {
+      body: { instance },
+    },
+  } = ctx
+
+  const sessionId = ctx.get('mcp-session-id')
+
+  if (!sessionId) {
+    ctx.status = 400
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32000,
+        message: 'Bad Request: Mcp-Session-Id header is required',
+      },
+    }
+
+    return
+  }
+
+  const sessionStore = getSessionStore(ctx)
+
+  if (!(await sessionRegistry.resolve(sessionStore, sessionId, instance))) {
+    ctx.status = 404
+    ctx.body = {
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32001,
+        message: 'Session not found',
+      },
+    }
+
+    return
+  }
+
+  sessionRegistry.remove(sessionId)
+  await sessionStore.remove(sessionId)
+
+  ctx.status = 200
+
+  await logToMasterData(ctx, 'mcpSessionDelete', 'middleware', 'info', {
+    data: {
+      sessionId,
+      instance,
+    },
+    message: 'MCP session terminated',
+  })
+
+  return next()
+}
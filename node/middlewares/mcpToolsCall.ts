@@ -6,12 +6,37 @@ import type {
   MCPToolsCallRequest,
   MCPToolsCallResponse,
 } from '../types/mcp-protocol'
+import type { OpenAPISpec } from '../types/openapi'
 import { MasterDataService } from '../services/masterDataService'
-import { APIExecutor } from '../utils/apiExecutor'
+import {
+  InFlightRequests,
+  inFlightRequests,
+} from '../services/inFlightRequests'
+import type { ExecuteAPIOptions } from '../utils/apiExecutor'
+import {
+  APIExecutor,
+  PROGRESS_TOTAL,
+  isAPIRequestFailure,
+  isRequestBodyValidationFailure,
+} from '../utils/apiExecutor'
 import { logToMasterData } from '../utils/logging'
 import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
 import { categorizeParameters } from '../utils/parameterCategorizer'
-import { mapHttpErrorToMCP } from '../utils/errorMapper'
+import { getOperationIndex } from '../utils/operationIndex'
+import {
+  buildToolErrorResult,
+  buildValidationErrorResult,
+  mapHttpErrorToMCP,
+} from '../utils/errorMapper'
+import { sendNotification } from '../utils/mcpNotifications'
+import type { FavoriteTool } from '../utils/favoriteTools'
+import { buildFavoriteTools, getFavoriteToolName } from '../utils/favoriteTools'
+import { toStructuredContent } from '../utils/outputSchema'
+import { supportsFeature } from '../utils/protocolVersions'
+import type { ConfirmationOutcome } from '../utils/operationConfirmation'
+import { confirmOperation } from '../utils/operationConfirmation'
+import { deriveToolAnnotations } from '../utils/toolAnnotations'
+import { buildApiOperationUri, buildApiSpecUri } from '../utils/resourceUris'
 
 /**
  * MCP Tools/Call endpoint
@@ -19,6 +44,8 @@ import { mapHttpErrorToMCP } from '../utils/errorMapper'
  */
 export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
   let requestBody: MCPRequest | null = null
+  let inFlightKey: string | undefined
+  let controller: AbortController | undefined
 
   try {
     const {
@@ -28,9 +55,7 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
       },
     } = ctx
 
-    requestBody =
-      ((ctx.state as any)?.mcpRequest as MCPRequest | undefined) ||
-      ((await json(req)) as MCPRequest)
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
 
     // Check MCP configuration
     if (!mcpConfig || !mcpConfig.enabled) {
@@ -105,7 +130,32 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
       return
     }
 
-    const { name, arguments: args } = requestBody.params as MCPToolsCallRequest
+    const {
+      name,
+      arguments: args,
+      _meta: meta,
+    } = requestBody.params as MCPToolsCallRequest
+
+    // Register the call so notifications/cancelled can abort it
+    inFlightKey = InFlightRequests.key(
+      ctx.state.mcpSessionId ?? ctx.state.body.instance,
+      requestBody.id
+    )
+    controller = inFlightRequests.register(inFlightKey)
+
+    // Report progress only when the client asked for it
+    const progressToken = meta?.progressToken
+    const onProgress =
+      progressToken !== undefined
+        ? (progress: number, message: string) => {
+            sendNotification(ctx, 'notifications/progress', {
+              progressToken,
+              progress,
+              total: PROGRESS_TOTAL,
+              message,
+            })
+          }
+        : undefined
 
     // Initialize services
     const masterDataService = new MasterDataService(ctx)
@@ -117,6 +167,7 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
     let path: string | undefined
     let parameters: Record<string, any> = {}
     let body: any
+    let favoriteTool: FavoriteTool | undefined
 
     // Handle tool call
     if (name === 'vtex_api_call') {
@@ -162,17 +213,45 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
         return
       }
     } else {
-      ctx.status = 400
-      ctx.body = {
-        jsonrpc: '2.0',
-        id: requestBody.id,
-        error: {
-          code: -32601,
-          message: `Unknown tool: ${name}`,
-        },
+      // Favorite tools take their path and query parameters as arguments
+      const instance = ctx.state.body?.instance
+      const [specsMetadata, favorites] = await Promise.all([
+        masterDataService.getAPISpecs(),
+        masterDataService.getFavorites(instance),
+      ])
+
+      // Only the favorites named like the tool are built
+      const namedFavorites = favorites.filter(
+        (favorite) => getFavoriteToolName(favorite) === name
+      )
+
+      favoriteTool = (
+        await buildFavoriteTools(
+          masterDataService,
+          specsMetadata,
+          namedFavorites
+        )
+      )[0]
+
+      if (!favoriteTool) {
+        ctx.status = 400
+        ctx.body = {
+          jsonrpc: '2.0',
+          id: requestBody.id,
+          error: {
+            code: -32601,
+            message: `Unknown tool: ${name}`,
+          },
+        }
+
+        return
       }
 
-      return
+      apiGroup = favoriteTool.favorite.apiGroup
+      operationId = favoriteTool.operation.operationId
+      method = favoriteTool.method
+      path = favoriteTool.path
+      parameters = args || {}
     }
 
     // Get API specification
@@ -199,7 +278,13 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
 
     let mcpResponse: MCPToolsCallResponse
 
-    if (name === 'vtex_api_call') {
+    // Operations whose resources are linked from the result
+    let linkedOperationIds: string[] = []
+
+    // Structured results are only understood by clients on 2025-06-18 or later
+    const withStructuredContent = supportsFeature(ctx, 'structuredOutput')
+
+    if (name === 'vtex_api_call' || favoriteTool) {
       // Categorize parameters based on OpenAPI specification
       const categorizedParams = categorizeParameters(
         openApiSpec,
@@ -207,8 +292,7 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
         parameters
       )
 
-      // Execute the API call
-      const result = await apiExecutor.executeOperation(openApiSpec, {
+      const executeOptions = {
         apiGroup,
         operationId,
         method,
@@ -217,47 +301,99 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
         queryParams: categorizedParams.queryParams,
         headers: categorizedParams.headers,
         body,
-      })
+        signal: controller.signal,
+        onProgress,
+        skipBodyValidation: !!mcpConfig?.skipBodyValidation,
+      }
 
-      mcpResponse = {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-            mimeType: result.metadata?.contentType || 'application/json',
+      // Invalid bodies are reported before asking the user to confirm them
+      apiExecutor.assertValidBody(openApiSpec, executeOptions)
+
+      // Ask the user before destructive or policy-marked operations
+      const confirmation = await confirmToolOperation(
+        ctx,
+        apiExecutor,
+        openApiSpec,
+        executeOptions,
+        favoriteTool
+      )
+
+      if (!confirmation.proceed) {
+        ctx.status = 200
+        ctx.body = {
+          jsonrpc: '2.0',
+          id: requestBody.id,
+          result: {
+            content: [{ type: 'text', text: confirmation.reason }],
+            isError: true,
           },
-        ],
-        isError: false,
+        }
+
+        await logToMasterData(ctx, 'mcpToolsCall', 'middleware', 'info', {
+          data: {
+            toolName: name,
+            apiGroup,
+            operationId: operationId || `${method} ${path}`,
+            reason: confirmation.reason,
+          },
+          message: 'MCP tool call not confirmed',
+        })
+
+        return next()
       }
+
+      // Execute the API call
+      const result = await apiExecutor.executeOperation(
+        openApiSpec,
+        executeOptions
+      )
+
+      linkedOperationIds = operationId ? [operationId] : []
+
+      // Favorite tools answer with the data described by their output schema;
+      // vtex_api_call has no output schema and keeps the executor metadata
+      const structuredContent = favoriteTool
+        ? favoriteTool.outputSchema &&
+          toStructuredContent(result.data, favoriteTool.outputSchema)
+        : result
+
+      // With structured content, the text block carries the same JSON
+      mcpResponse =
+        withStructuredContent && structuredContent
+          ? {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(structuredContent, null, 2),
+                  mimeType: 'application/json',
+                },
+              ],
+              structuredContent,
+              isError: false,
+            }
+          : {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                  mimeType: result.metadata?.contentType || 'application/json',
+                },
+              ],
+              isError: false,
+            }
     } else {
-      // vtex_api_specification: return same as resources/read for vtex://api-path/
+      // vtex_api_specification: return the whole path item of the operation
+      // (resources/read on vtex://api-operation/ returns a single operation)
       // Find the specific path spec
       let resolvedPath: string | undefined = path
 
       if (!resolvedPath && operationId) {
-        // Resolve path by operationId
-        for (const [p, pathItem] of Object.entries(openApiSpec.paths || {})) {
-          const methods = [
-            'get',
-            'post',
-            'put',
-            'patch',
-            'delete',
-            'options',
-            'head',
-          ]
-
-          for (const m of methods) {
-            const op: any = (pathItem as any)[m]
-
-            if (op && op.operationId === operationId) {
-              resolvedPath = p
-              method = (m as string).toUpperCase()
-              break
-            }
-          }
+        // Resolve path by operationId through the operation index
+        const entry = getOperationIndex(openApiSpec).findById(operationId)
 
-          if (resolvedPath) break
+        if (entry) {
+          resolvedPath = entry.path
+          method = entry.method
         }
       }
 
@@ -279,6 +415,10 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
         return
       }
 
+      linkedOperationIds = Object.values<any>(pathSpec)
+        .map((operation) => operation?.operationId)
+        .filter((id): id is string => typeof id === 'string')
+
       const pathResponse = {
         group: specMetadata.apiGroup,
         version: specMetadata.version,
@@ -296,10 +436,29 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
             mimeType: 'application/json',
           },
         ],
+        ...(withStructuredContent ? { structuredContent: pathResponse } : {}),
         isError: false,
       }
     }
 
+    // Link the resources behind the result, for clients that support it
+    if (supportsFeature(ctx, 'resourceLinks')) {
+      mcpResponse.content.push(
+        {
+          type: 'resource_link',
+          uri: buildApiSpecUri(specMetadata.apiGroup),
+          name: `${specMetadata.apiGroup} API specification`,
+          mimeType: 'application/json',
+        },
+        ...linkedOperationIds.map((id) => ({
+          type: 'resource_link' as const,
+          uri: buildApiOperationUri(specMetadata.apiGroup, id),
+          name: `${specMetadata.apiGroup}.${id}`,
+          mimeType: 'application/json',
+        }))
+      )
+    }
+
     const response: MCPResponse = {
       jsonrpc: '2.0',
       id: requestBody.id,
@@ -322,6 +481,69 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
 
     return next()
   } catch (error) {
+    // The client cancelled the call with notifications/cancelled: the work is
+    // aborted and, as the protocol requires, no response is sent
+    if (controller?.signal.aborted) {
+      await logToMasterData(ctx, 'mcpToolsCall', 'middleware', 'info', {
+        data: {
+          id: requestBody?.id,
+          reason: controller.signal.reason,
+        },
+        message: 'MCP tool call cancelled by the client',
+      })
+
+      ctx.status = 202
+      ctx.body = undefined
+
+      return
+    }
+
+    // The VTEX API rejected the call: report it to the model as a tool
+    // error, JSON-RPC errors are kept for protocol problems
+    if (isAPIRequestFailure(error)) {
+      await logToMasterData(ctx, 'mcpToolsCall', 'middleware', 'warn', {
+        data: {
+          id: requestBody?.id,
+          status: error.upstream.status,
+          request: error.request,
+          metadata: error.metadata,
+        },
+        message: 'VTEX API call failed, returned as a tool error',
+      })
+
+      ctx.status = 200
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id as string | null,
+        result: buildToolErrorResult(error),
+      }
+
+      return
+    }
+
+    // The body didn't match the operation schema and was not sent: list
+    // what to fix, as a tool error the model can act on
+    if (isRequestBodyValidationFailure(error)) {
+      await logToMasterData(ctx, 'mcpToolsCall', 'middleware', 'warn', {
+        data: {
+          id: requestBody?.id,
+          request: error.request,
+          validationErrors: error.validationErrors,
+          metadata: error.metadata,
+        },
+        message: 'Request body failed schema validation',
+      })
+
+      ctx.status = 200
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody?.id as string | null,
+        result: buildValidationErrorResult(error),
+      }
+
+      return
+    }
+
     // Map HTTP error to MCP error format
     const mcpError = mapHttpErrorToMCP(error)
 
@@ -345,5 +567,46 @@ export async function mcpToolsCall(ctx: Context, next: () => Promise<any>) {
         data: mcpError.data,
       },
     }
+  } finally {
+    if (inFlightKey && controller) {
+      inFlightRequests.remove(inFlightKey, controller)
+    }
+  }
+}
+
+/**
+ * Resolves the operation of a tool call and asks the user to confirm it when
+ * needed. Favorite tools use their annotations, which admins can override.
+ * Requests that can't be resolved go ahead, so the executor reports the error.
+ */
+async function confirmToolOperation(
+  ctx: Context,
+  apiExecutor: APIExecutor,
+  openApiSpec: OpenAPISpec,
+  options: ExecuteAPIOptions,
+  favoriteTool?: FavoriteTool
+): Promise<ConfirmationOutcome> {
+  let resolved: ReturnType<APIExecutor['resolveRequest']>
+
+  try {
+    resolved = apiExecutor.resolveRequest(openApiSpec, options)
+  } catch (_) {
+    return { proceed: true }
   }
+
+  return confirmOperation(ctx, {
+    apiGroup: options.apiGroup,
+    operationId: resolved.operation.operationId,
+    method: resolved.method,
+    operationPath: resolved.operationPath,
+    path: resolved.path,
+    body: options.body,
+    annotations:
+      favoriteTool?.tool.annotations ??
+      deriveToolAnnotations({
+        method: resolved.method,
+        path: resolved.operationPath,
+        operation: resolved.operation,
+      }),
+  })
 }
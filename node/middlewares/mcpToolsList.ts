@@ -5,10 +5,17 @@ import type {
   MCPResponse,
   MCPToolsListResponse,
   MCPTool,
+  MCPPaginatedRequest,
 } from '../types/mcp-protocol'
 import { MasterDataService } from '../services/masterDataService'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
 import { logToMasterData } from '../utils/logging'
 import { getValidMethodsForEndpoint } from '../utils/mcpUtils'
+import { getPageSize, paginate } from '../utils/pagination'
+import { fingerprintTools } from '../utils/toolsChangeTracker'
+import { buildFavoriteTools } from '../utils/favoriteTools'
+import { supportsFeature } from '../utils/protocolVersions'
 
 /**
  * MCP Tools/List endpoint
@@ -25,9 +32,7 @@ export async function mcpToolsList(ctx: Context, next: () => Promise<any>) {
       },
     } = ctx
 
-    requestBody =
-      ((ctx.state as any)?.mcpRequest as MCPRequest | undefined) ||
-      ((await json(req)) as MCPRequest)
+    requestBody = ctx.state.mcpRequest || ((await json(req)) as MCPRequest)
 
     // Check MCP configuration
     if (!mcpConfig || !mcpConfig.enabled) {
@@ -131,6 +136,13 @@ export async function mcpToolsList(ctx: Context, next: () => Promise<any>) {
         },
         required: ['apiGroup'],
       },
+      // The operation is only known at call time, so assume the worst
+      annotations: {
+        title: 'Call a VTEX API operation',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+      },
     }
 
     tools.push(generalTool)
@@ -167,189 +179,59 @@ export async function mcpToolsList(ctx: Context, next: () => Promise<any>) {
         },
         required: ['apiGroup'],
       },
+      annotations: {
+        title: 'Get a VTEX API operation specification',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
     }
 
     tools.push(specTool)
 
-    // Build a map of apiGroup -> spec metadata for quick lookup
-    const groupToSpecMeta = new Map(
-      specsMetadata.map((spec) => [spec.apiGroup, spec])
-    )
-
     // Load favorites for this instance (include global)
-    const instance = (ctx.state as any)?.body?.instance as string | undefined
+    const instance = ctx.state.body?.instance
     const favorites = await masterDataService.getFavorites(instance)
 
-    // Helper to sanitize tool names
-    const sanitizeName = (name: string) => name.replace(/[^A-Za-z0-9_:-]/g, '_')
-
-    // Helper: map OpenAPI schema type to JSON Schema for tool inputs
-    const mapType = (schema: any): any => {
-      if (!schema || typeof schema !== 'object') return { type: 'string' }
-      const t = (schema.type || '').toString()
-
-      if (t === 'integer' || t === 'number') return { type: 'number' }
-      if (t === 'boolean') return { type: 'boolean' }
-      if (t === 'array') {
-        const items = mapType(schema.items || { type: 'string' })
-
-        return { type: 'array', items }
-      }
-
-      return { type: 'string' }
-    }
-
-    // Prefetch specs per apiGroup once
-    const groupsToFetch = Array.from(
-      new Set(favorites.map((f) => f.apiGroup))
-    ).filter((g) => {
-      const meta = groupToSpecMeta.get(g)
-
-      return !!meta && !!meta.enabled && !!meta.specUrl
-    })
-
-    const groupToSpec = new Map<string, any>()
-
-    await Promise.all(
-      groupsToFetch.map(async (g) => {
-        const meta = groupToSpecMeta.get(g)!
+    // Add one tool per favorite operation
+    const favoriteTools = await buildFavoriteTools(
+      masterDataService,
+      specsMetadata,
+      favorites
+    )
 
-        try {
-          const spec = await masterDataService.fetchSpecFromUrl(meta.specUrl)
+    // Output schemas are only understood by clients on 2025-06-18 or later
+    const withOutputSchema = supportsFeature(ctx, 'structuredOutput')
 
-          groupToSpec.set(g, spec)
-        } catch (_) {
-          // ignore individual group fetch failures; affected favorites will be skipped
-        }
-      })
+    tools.push(
+      ...favoriteTools.map(({ tool, outputSchema }) =>
+        withOutputSchema && outputSchema
+          ? { ...tool, outputSchema: outputSchema.schema }
+          : tool
+      )
     )
 
-    // For each favorite, derive path/query parameters to build tool input schema
-    for (const fav of favorites) {
-      const meta = groupToSpecMeta.get(fav.apiGroup)
+    // Return the page that starts at the cursor sent by the client
+    const { cursor } = (requestBody.params || {}) as MCPPaginatedRequest
+    const page = paginate('tools', tools, cursor, getPageSize(mcpConfig))
 
-      if (!meta || !meta.enabled || !meta.specUrl) {
-        continue
+    if (!page) {
+      ctx.status = 400
+      ctx.body = {
+        jsonrpc: '2.0',
+        id: requestBody.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params - invalid cursor',
+        },
       }
 
-      try {
-        const spec = groupToSpec.get(fav.apiGroup)
-
-        if (!spec) {
-          continue
-        }
-
-        // Find the operation by operationId (preferred)
-        let foundOperation: any = null
-        let foundPath: string | null = null
-        let foundMethod: string | null = null
-
-        if (spec && spec.paths) {
-          const lowerTarget = fav.operationId.toLowerCase()
-
-          for (const [pathKey, pathItem] of Object.entries<any>(spec.paths)) {
-            if (!pathItem) continue
-            for (const method of [
-              'get',
-              'post',
-              'put',
-              'patch',
-              'delete',
-              'head',
-              'options',
-            ]) {
-              const op = (pathItem as any)[method]
-
-              if (
-                op &&
-                typeof op === 'object' &&
-                'operationId' in op &&
-                op.operationId &&
-                (op.operationId as string).toLowerCase() === lowerTarget
-              ) {
-                foundOperation = op
-                foundPath = pathKey
-                foundMethod = method
-                break
-              }
-            }
-
-            if (foundOperation) break
-          }
-        }
-
-        // Fallback by method+path if not found and favorite provides them
-        if (
-          !foundOperation &&
-          fav.httpMethod &&
-          fav.path &&
-          spec?.paths?.[fav.path]
-        ) {
-          const op = (spec.paths as any)[fav.path][fav.httpMethod.toLowerCase()]
-
-          if (op) {
-            foundOperation = op
-            foundPath = fav.path
-            foundMethod = fav.httpMethod.toLowerCase()
-          }
-        }
-
-        if (!foundOperation) {
-          continue
-        }
-
-        const inputProperties: Record<string, any> = {}
-        const required: string[] = []
-
-        const params: any[] = Array.isArray(foundOperation.parameters)
-          ? foundOperation.parameters
-          : []
-
-        for (const p of params) {
-          if (!p || typeof p !== 'object' || !('in' in p) || !('name' in p)) {
-            continue
-          }
-
-          if (p.in !== 'path' && p.in !== 'query') continue
-          const propName = p.name as string
-          const schema = (p as any).schema || { type: 'string' }
-          const mapped = mapType(schema)
-          const prop: any = {
-            ...mapped,
-          }
-
-          if (p.description) prop.description = p.description
-          if (schema.enum) prop.enum = schema.enum
-          if (schema.format) prop.format = schema.format
-
-          inputProperties[propName] = prop
-          if (p.required || p.in === 'path') required.push(propName)
-        }
-
-        const toolName = sanitizeName(`${fav.apiGroup}_${fav.operationId}`)
-        const description =
-          fav.description ||
-          `Execute ${fav.apiGroup}.${fav.operationId}${
-            foundPath ? ` (${foundMethod?.toUpperCase()} ${foundPath})` : ''
-          }`
-
-        tools.push({
-          name: toolName,
-          description,
-          inputSchema: {
-            type: 'object',
-            properties: inputProperties,
-            ...(required.length > 0 ? { required } : {}),
-          },
-        })
-      } catch (e) {
-        // Skip on per-favorite errors; they are logged centrally when fetching specs
-        continue
-      }
+      return
     }
 
     const response: MCPToolsListResponse = {
-      tools,
+      tools: page.items,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
     }
 
     const mcpResponse: MCPResponse = {
@@ -361,10 +243,22 @@ export async function mcpToolsList(ctx: Context, next: () => Promise<any>) {
     ctx.status = 200
     ctx.body = mcpResponse
 
+    // Remember what the session saw, to detect later changes of the list
+    const sessionId = ctx.state.mcpSessionId
+
+    if (sessionId) {
+      sessionRegistry.setToolsFingerprint(
+        sessionId,
+        fingerprintTools(specsMetadata, favorites)
+      )
+      await sessionRegistry.save(getSessionStore(ctx), sessionId)
+    }
+
     // Log the request for monitoring
     await logToMasterData(ctx, 'mcpToolsList', 'middleware', 'info', {
       data: {
         toolsCount: tools.length,
+        returnedCount: page.items.length,
         apiGroups: specsMetadata.map((spec) => spec.apiGroup),
       },
       message: 'MCP tools list retrieved successfully',
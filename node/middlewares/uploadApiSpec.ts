@@ -1,4 +1,5 @@
 import type { MCPUploadSpecResponse } from '../types/mcp'
+import type { OpenAPISpec } from '../types/openapi'
 import { MasterDataService } from '../services/masterDataService'
 import { RequestValidator } from '../utils/validator'
 import { logToMasterData } from '../utils/logging'
@@ -32,6 +33,27 @@ export async function uploadApiSpec(ctx: Context, next: () => Promise<any>) {
     // Initialize MasterData service
     const masterDataService = new MasterDataService(ctx)
 
+    // Fetch the specification before saving it: it's parsed, converted to
+    // OpenAPI 3 when it's a Swagger 2.0 document and validated, so unusable
+    // specs are rejected now instead of failing every later request. The
+    // cached copy is revalidated, so an updated document is served right
+    // away, and its operation index is built and saved
+    let spec: OpenAPISpec
+
+    try {
+      spec = await masterDataService.fetchSpecFromUrl(request.specUrl, {
+        revalidate: true,
+      })
+    } catch (error) {
+      ctx.status = 400
+      ctx.body = {
+        success: false,
+        error: error.message,
+      }
+
+      return
+    }
+
     // Save the API specification
     const result = await masterDataService.saveAPISpec({
       apiGroup: request.apiGroup,
@@ -39,6 +61,7 @@ export async function uploadApiSpec(ctx: Context, next: () => Promise<any>) {
       specUrl: request.specUrl,
       enabled: request.enabled || true,
       description: request.description,
+      operationCount: masterDataService.countOperations(spec),
     })
 
     const response: MCPUploadSpecResponse = {
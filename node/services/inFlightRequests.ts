@@ -0,0 +1,56 @@
+/**
+ * Keeps the abort controllers of the MCP requests being processed, so a
+ * notifications/cancelled sent by the client can abort them. State lives in
+ * the worker process, like the session registry.
+ */
+export class InFlightRequests {
+  private readonly controllers = new Map<string, AbortController>()
+
+  /**
+   * Build the key of a request. Request ids are only unique per session, so
+   * the session id (or the instance, without a session) is part of the key.
+   */
+  public static key(scope: string, requestId: string | number): string {
+    return `${scope}:${requestId}`
+  }
+
+  /**
+   * Register a request and get the controller that aborts it
+   */
+  public register(key: string): AbortController {
+    const controller = new AbortController()
+
+    this.controllers.set(key, controller)
+
+    return controller
+  }
+
+  /**
+   * Unregister a request once it is finished
+   */
+  public remove(key: string, controller: AbortController): void {
+    // A newer request may have reused the key
+    if (this.controllers.get(key) === controller) {
+      this.controllers.delete(key)
+    }
+  }
+
+  /**
+   * Abort a request
+   * @returns True if the request was in flight
+   */
+  public cancel(key: string, reason?: string): boolean {
+    const controller = this.controllers.get(key)
+
+    if (!controller) {
+      return false
+    }
+
+    controller.abort(reason)
+    this.controllers.delete(key)
+
+    return true
+  }
+}
+
+export const inFlightRequests = new InFlightRequests()
@@ -1,5 +1,15 @@
+import type { MCPToolAnnotations } from '../types/mcp-protocol'
 import type { OpenAPISpec } from '../types/openapi'
 import { logToMasterData } from '../utils/logging'
+import {
+  getOperationIndex,
+  OperationIndex,
+  registerOperationIndex,
+} from '../utils/operationIndex'
+import { notifyResourcesUpdated } from '../utils/mcpNotifications'
+import { notifyToolsListChanged } from '../utils/toolsChangeTracker'
+import { OperationIndexStore } from './operationIndexStore'
+import { specCache } from './specCache'
 
 export interface APISpecData {
   apiGroup: string
@@ -22,17 +32,47 @@ export interface FavoriteData {
   description?: string
   httpMethod?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS'
   path?: string
+  annotations?: MCPToolAnnotations
 }
 
 export interface FavoriteDocument extends FavoriteData {
   id: string
 }
 
+export interface PromptArgumentData {
+  name: string
+  description?: string
+  required?: boolean
+  type?: 'string' | 'number' | 'integer' | 'boolean'
+  enum?: string[]
+}
+
+export interface PromptMessageData {
+  role: 'user' | 'assistant'
+  text: string
+}
+
+export interface PromptData {
+  instance: string
+  name: string
+  title?: string
+  description?: string
+  arguments: PromptArgumentData[]
+  messages: PromptMessageData[]
+  enabled: boolean
+}
+
+export interface PromptDocument extends PromptData {
+  id: string
+}
+
 export class MasterDataService {
   private readonly dataEntity = 'vtex_mcp_api_specs'
   private readonly schema = 'api_specs'
   private readonly favoritesDataEntity = 'vtex_mcp_favorites'
   private readonly favoritesSchema = 'favorites'
+  private readonly promptsDataEntity = 'vtex_mcp_prompts'
+  private readonly promptsSchema = 'prompts'
   private readonly cache = new Map<string, APISpecDocument>()
   private readonly cacheTTL = 5 * 60 * 1000 // 5 minutes
   private readonly cacheTimestamps = new Map<string, number>()
@@ -193,6 +233,11 @@ export class MasterDataService {
       // Always clear the "all specs" cache when data changes
       this.clearCache('all_specs')
 
+      // The cached document of a replaced URL is no longer used
+      if (existing?.specUrl && existing.specUrl !== data.specUrl) {
+        specCache.invalidate(existing.specUrl)
+      }
+
       if (existing) {
         // Update cache for the specific group
         this.setCache(`group_${data.apiGroup}`, {
@@ -201,6 +246,11 @@ export class MasterDataService {
         })
       }
 
+      // Let subscribed sessions know the group resources changed, and every
+      // session that the tools built from the specs changed
+      notifyResourcesUpdated(data.apiGroup)
+      await notifyToolsListChanged(this.ctx, this)
+
       return {
         id: result.DocumentId || existing?.id || result.Id,
         ...specData,
@@ -222,13 +272,26 @@ export class MasterDataService {
    */
   public async deleteAPISpec(id: string): Promise<void> {
     try {
+      // Look up the group and URL before the document is gone
+      const { apiGroup, specUrl } = (await this.findSpecById(id)) ?? {}
+
       await this.ctx.clients.masterdata.deleteDocument({
         dataEntity: this.dataEntity,
         id,
       })
 
-      // Clear all caches since we don't know which group was deleted
+      // Clear all caches since cached entries are keyed by group
       this.clearAllCache()
+
+      if (specUrl) {
+        specCache.invalidate(specUrl)
+      }
+
+      if (apiGroup) {
+        notifyResourcesUpdated(apiGroup)
+      }
+
+      await notifyToolsListChanged(this.ctx, this)
     } catch (error) {
       await logToMasterData(
         this.ctx,
@@ -246,6 +309,8 @@ export class MasterDataService {
    */
   public async disableAPISpec(id: string): Promise<void> {
     try {
+      const { apiGroup, specUrl } = (await this.findSpecById(id)) ?? {}
+
       await this.ctx.clients.masterdata.updatePartialDocument({
         dataEntity: this.dataEntity,
         id,
@@ -257,6 +322,16 @@ export class MasterDataService {
 
       // Clear all caches
       this.clearAllCache()
+
+      if (specUrl) {
+        specCache.invalidate(specUrl)
+      }
+
+      if (apiGroup) {
+        notifyResourcesUpdated(apiGroup)
+      }
+
+      await notifyToolsListChanged(this.ctx, this)
     } catch (error) {
       await logToMasterData(
         this.ctx,
@@ -322,6 +397,36 @@ export class MasterDataService {
     }
   }
 
+  /**
+   * Find the API group and URL of a specification document
+   */
+  private async findSpecById(
+    id: string
+  ): Promise<Partial<Pick<APISpecData, 'apiGroup' | 'specUrl'>> | null> {
+    try {
+      const doc = await this.ctx.clients.masterdata.getDocument<{
+        apiGroup?: string
+        specUrl?: string
+      }>({
+        dataEntity: this.dataEntity,
+        id,
+        fields: ['apiGroup', 'specUrl'],
+      })
+
+      return doc ? { apiGroup: doc.apiGroup, specUrl: doc.specUrl } : null
+    } catch (error) {
+      await logToMasterData(
+        this.ctx,
+        'findSpecById',
+        'masterDataService',
+        'error',
+        error
+      )
+
+      return null
+    }
+  }
+
   /**
    * Check if cache entry is still valid
    */
@@ -373,11 +478,49 @@ export class MasterDataService {
   }
 
   /**
-   * Fetch OpenAPI specification from URL using dedicated OpenAPI client
+   * Fetch OpenAPI specification from URL using dedicated OpenAPI client.
+   * Specifications are kept in the process-level spec cache and revalidated
+   * with ETag/Last-Modified once stale. Every fetched document gets its
+   * operation index registered (see indexSpec).
+   * @param specUrl - The URL of the specification
+   * @param options - revalidate skips the freshness of the cached copy
    */
-  public async fetchSpecFromUrl(specUrl: string): Promise<OpenAPISpec> {
+  public async fetchSpecFromUrl(
+    specUrl: string,
+    options: { revalidate?: boolean } = {}
+  ): Promise<OpenAPISpec> {
     try {
-      return await this.ctx.clients.openApi.fetchSpecFromUrl(specUrl)
+      return await specCache.get(
+        specUrl,
+        async (validators) => {
+          const result = await this.ctx.clients.openApi.fetchSpecConditionally(
+            specUrl,
+            validators
+          )
+
+          if (!result.notModified) {
+            await this.indexSpec(specUrl, result.spec, result.hash)
+          }
+
+          return result
+        },
+        {
+          revalidate: options.revalidate,
+          onBackgroundError: (error) =>
+            logToMasterData(
+              this.ctx,
+              'fetchSpecFromUrl',
+              'masterDataService',
+              'warn',
+              {
+                error,
+                data: { specUrl },
+                message:
+                  'Background revalidation of the specification failed, serving the stale copy',
+              }
+            ),
+        }
+      )
     } catch (error) {
       await logToMasterData(
         this.ctx,
@@ -386,7 +529,10 @@ export class MasterDataService {
         'error',
         error
       )
-      throw new Error(`Failed to fetch specification from ${specUrl}`)
+      // The client error tells why, e.g. the line of a malformed document
+      throw new Error(
+        error?.message || `Failed to fetch specification from ${specUrl}`
+      )
     }
   }
 
@@ -394,27 +540,66 @@ export class MasterDataService {
    * Count operations in an OpenAPI specification
    */
   public countOperations(spec: OpenAPISpec): number {
-    let count = 0
-
-    for (const pathItem of Object.values(spec.paths)) {
-      const methods = [
-        'get',
-        'post',
-        'put',
-        'patch',
-        'delete',
-        'head',
-        'options',
-      ]
-
-      for (const method of methods) {
-        if (pathItem[method as keyof typeof pathItem]) {
-          count++
-        }
+    return getOperationIndex(spec).operations.length
+  }
+
+  /**
+   * Register the operation index of a fetched specification document: the
+   * one saved in VBase when it was built from the same document, otherwise
+   * a new one, which is saved for the other replicas. Store failures only
+   * cost the reuse, the index is built anyway.
+   */
+  private async indexSpec(
+    specUrl: string,
+    spec: OpenAPISpec,
+    specHash: string
+  ): Promise<void> {
+    const store = new OperationIndexStore(this.ctx.clients.vbase)
+
+    try {
+      const persisted = await store.load(specUrl)
+
+      if (persisted?.specHash === specHash) {
+        registerOperationIndex(spec, new OperationIndex(persisted.operations))
+
+        return
       }
+    } catch (error) {
+      await logToMasterData(
+        this.ctx,
+        'indexSpec',
+        'masterDataService',
+        'warn',
+        {
+          error,
+          data: { specUrl },
+          message: 'Failed to load the operation index',
+        }
+      )
     }
 
-    return count
+    const index = getOperationIndex(spec)
+
+    try {
+      await store.save({
+        specUrl,
+        specHash,
+        builtAt: new Date().toISOString(),
+        operations: index.operations,
+      })
+    } catch (error) {
+      await logToMasterData(
+        this.ctx,
+        'indexSpec',
+        'masterDataService',
+        'warn',
+        {
+          error,
+          data: { specUrl },
+          message: 'Failed to save the operation index',
+        }
+      )
+    }
   }
 
   /**
@@ -459,6 +644,7 @@ export class MasterDataService {
           'description',
           'httpMethod',
           'path',
+          'annotations',
         ],
         where: whereParts.join(' AND '),
         pagination: {
@@ -476,6 +662,7 @@ export class MasterDataService {
         description: (doc as any).description,
         httpMethod: (doc as any).httpMethod,
         path: (doc as any).path,
+        annotations: (doc as any).annotations,
       }))
 
       favorites.sort(
@@ -498,4 +685,112 @@ export class MasterDataService {
       throw new Error('Failed to retrieve favorites')
     }
   }
+
+  /**
+   * Retrieve enabled prompts for the given instance (including global ones).
+   * Instance prompts replace global prompts with the same name.
+   */
+  public async getPrompts(
+    instance: string | undefined
+  ): Promise<PromptDocument[]> {
+    const normalizedInstance = (instance || '').trim()
+    const cacheKey = `prompts_${normalizedInstance || 'default'}`
+
+    if (this.isCacheValid(cacheKey)) {
+      const cached = this.cache.get(cacheKey) as unknown as
+        | PromptDocument[]
+        | undefined
+
+      if (cached) {
+        return cached
+      }
+    }
+
+    try {
+      const whereParts = ['enabled=true']
+
+      if (normalizedInstance) {
+        // Include instance-specific and global prompts
+        whereParts.push(`(instance=${normalizedInstance} OR instance="")`)
+      } else {
+        // Only global prompts when no instance provided
+        whereParts.push('instance=""')
+      }
+
+      const response = await this.ctx.clients.masterdata.searchDocuments({
+        dataEntity: this.promptsDataEntity,
+        schema: this.promptsSchema,
+        fields: [
+          'id',
+          'instance',
+          'name',
+          'title',
+          'description',
+          'arguments',
+          'messages',
+          'enabled',
+        ],
+        where: whereParts.join(' AND '),
+        pagination: {
+          page: 1,
+          pageSize: 100,
+        },
+      })
+
+      const promptsByName = new Map<string, PromptDocument>()
+
+      for (const doc of response as any[]) {
+        const prompt: PromptDocument = {
+          id: (doc as any).id,
+          instance: (doc as any).instance ?? '',
+          name: (doc as any).name,
+          title: (doc as any).title,
+          description: (doc as any).description,
+          arguments: Array.isArray((doc as any).arguments)
+            ? (doc as any).arguments
+            : [],
+          messages: Array.isArray((doc as any).messages)
+            ? (doc as any).messages
+            : [],
+          enabled: Boolean((doc as any).enabled),
+        }
+
+        const existing = promptsByName.get(prompt.name)
+
+        // Instance-specific prompts take precedence over global ones
+        if (!existing || (!existing.instance && prompt.instance)) {
+          promptsByName.set(prompt.name, prompt)
+        }
+      }
+
+      const prompts = Array.from(promptsByName.values()).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+
+      this.setCache(cacheKey, prompts as unknown as any)
+
+      return prompts
+    } catch (error) {
+      await logToMasterData(
+        this.ctx,
+        'getPrompts',
+        'masterDataService',
+        'error',
+        error
+      )
+      throw new Error('Failed to retrieve prompts')
+    }
+  }
+
+  /**
+   * Retrieve an enabled prompt by name for the given instance
+   */
+  public async getPromptByName(
+    instance: string | undefined,
+    name: string
+  ): Promise<PromptDocument | null> {
+    const prompts = await this.getPrompts(instance)
+
+    return prompts.find((prompt) => prompt.name === name) ?? null
+  }
 }
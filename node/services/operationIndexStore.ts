@@ -0,0 +1,40 @@
+import { createHash } from 'crypto'
+
+import type { PersistedOperationIndex } from '../types/openapi'
+
+// VBase bucket holding one JSON file per specification URL
+const OPERATION_INDEX_BUCKET = 'mcp_operation_index'
+
+/**
+ * Persists the operation index of each specification document, so replicas
+ * reuse the index built when the spec was uploaded or refreshed instead of
+ * resolving every operation again
+ */
+export class OperationIndexStore {
+  constructor(private vbase: Context['clients']['vbase']) {}
+
+  /**
+   * Load the index saved for a specification URL
+   * @returns The index, or null if none was saved
+   */
+  public async load(specUrl: string): Promise<PersistedOperationIndex | null> {
+    return this.vbase.getJSON<PersistedOperationIndex | null>(
+      OPERATION_INDEX_BUCKET,
+      toFileName(specUrl),
+      true
+    )
+  }
+
+  public async save(index: PersistedOperationIndex): Promise<void> {
+    await this.vbase.saveJSON(
+      OPERATION_INDEX_BUCKET,
+      toFileName(index.specUrl),
+      index
+    )
+  }
+}
+
+// Spec URLs are long and full of reserved characters, their hash is not
+function toFileName(specUrl: string): string {
+  return `${createHash('sha256').update(specUrl).digest('hex')}.json`
+}
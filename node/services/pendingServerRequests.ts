@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto'
+
+import type { MCPResponse } from '../types/mcp-protocol'
+
+interface PendingRequest {
+  sessionId: string
+  resolve: (response: MCPResponse | null) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Keeps the requests sent by the server to clients (e.g. elicitation/create)
+ * until the client posts the JSON-RPC response. State lives in the worker
+ * process, like the session registry.
+ */
+export class PendingServerRequests {
+  private readonly requests = new Map<string, PendingRequest>()
+
+  /**
+   * Register a request sent to a session
+   * @param sessionId - The session the request is sent to
+   * @param timeoutMs - How long to wait for the response
+   * @returns The request id and a promise of the response, or null on timeout
+   */
+  public register(
+    sessionId: string,
+    timeoutMs: number
+  ): { id: string; response: Promise<MCPResponse | null> } {
+    const id = `server-${randomUUID()}`
+
+    const response = new Promise<MCPResponse | null>((resolve) => {
+      const timer = setTimeout(() => {
+        this.requests.delete(id)
+        resolve(null)
+      }, timeoutMs)
+
+      this.requests.set(id, { sessionId, resolve, timer })
+    })
+
+    return { id, response }
+  }
+
+  /**
+   * Deliver a response posted by a client
+   * @returns True if it answered a pending request of the session
+   */
+  public resolve(sessionId: string, response: MCPResponse): boolean {
+    const id = String(response.id)
+    const pending = this.requests.get(id)
+
+    if (!pending || pending.sessionId !== sessionId) {
+      return false
+    }
+
+    clearTimeout(pending.timer)
+    this.requests.delete(id)
+    pending.resolve(response)
+
+    return true
+  }
+
+  /**
+   * Stop waiting for a request, e.g. when the client stream closes
+   */
+  public discard(id: string): void {
+    const pending = this.requests.get(id)
+
+    if (pending) {
+      clearTimeout(pending.timer)
+      this.requests.delete(id)
+      pending.resolve(null)
+    }
+  }
+}
+
+export const pendingServerRequests = new PendingServerRequests()
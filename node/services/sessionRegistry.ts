@@ -0,0 +1,399 @@
+import { randomUUID } from 'crypto'
+import type { PassThrough } from 'stream'
+
+import type { MCPLogLevel } from '../types/mcp-protocol'
+import { isEventStreamOpen, writeEvent } from '../utils/sse'
+import type { SessionStore } from './sessionStore'
+
+// How often the activity of a session is saved to the store
+const ACTIVITY_SAVE_INTERVAL_MS = 5 * 60 * 1000
+
+// How long a worker uses its copy of a session before loading it from the
+// store again, to see the changes saved by other workers
+const SESSION_REFRESH_INTERVAL_MS = 30 * 1000
+
+export interface MCPSession {
+  id: string
+  instance: string
+  createdAt: number
+  lastActivityAt: number
+  subscriptions: string[]
+  // Fingerprint of the tools list last seen by the client
+  toolsFingerprint?: string
+  // Minimum level of the log messages forwarded to the client
+  logLevel?: MCPLogLevel
+  // Set when the client sends notifications/initialized
+  ready: boolean
+  // Negotiated on initialize
+  protocolVersion?: string
+  clientInfo?: { name: string; version: string }
+  clientCapabilities?: Record<string, any>
+}
+
+/**
+ * Keeps the MCP sessions issued on `initialize` and the SSE streams opened
+ * for them. Sessions are cached in the worker process and saved to a
+ * SessionStore, from which sessions issued or changed by other workers are
+ * loaded. The fields of MCPSession (negotiated protocol version, log level,
+ * subscriptions, tools fingerprint) are saved whenever they change, and
+ * cached copies are loaded again after SESSION_REFRESH_INTERVAL_MS.
+ *
+ * Streams only live in the worker that opened them, so notifications only
+ * reach a session through the worker holding its stream. The same goes for
+ * the requests in flight (inFlightRequests) and the requests sent to the
+ * client (pendingServerRequests): a cancellation or elicitation response
+ * handled by another worker doesn't find them.
+ */
+export class SessionRegistry {
+  private readonly sessions = new Map<string, MCPSession>()
+  private readonly streams = new Map<string, Set<PassThrough>>()
+  private readonly savedAt = new Map<string, number>()
+  private readonly syncedAt = new Map<string, number>()
+  private readonly idleTTL = 60 * 60 * 1000 // 1 hour
+
+  /**
+   * Create a new session for the given instance, after removing the idle
+   * sessions of this worker
+   */
+  public async create(
+    store: SessionStore,
+    instance: string
+  ): Promise<MCPSession> {
+    await this.removeIdleSessions(store)
+
+    const now = Date.now()
+    const session: MCPSession = {
+      id: randomUUID(),
+      instance,
+      createdAt: now,
+      lastActivityAt: now,
+      subscriptions: [],
+      ready: false,
+    }
+
+    this.sessions.set(session.id, session)
+
+    return session
+  }
+
+  /**
+   * Get a session by id, only if it belongs to the given instance
+   */
+  public get(id: string, instance: string): MCPSession | undefined {
+    const session = this.sessions.get(id)
+
+    if (!session || session.instance !== instance) {
+      return undefined
+    }
+
+    return session
+  }
+
+  /**
+   * Get a session of the given instance, loading it from the store when this
+   * worker doesn't know it or its copy is older than
+   * SESSION_REFRESH_INTERVAL_MS. Expired sessions are removed.
+   * @returns The session, or undefined if it is missing or expired
+   */
+  public async resolve(
+    store: SessionStore,
+    id: string,
+    instance: string
+  ): Promise<MCPSession | undefined> {
+    let session = this.sessions.get(id)
+
+    // Another worker may have issued the session, kept it alive or changed it
+    if (!session || this.isExpired(session) || this.isStale(id)) {
+      const stored = await store.load(id)
+
+      // Activity seen by this worker may not be saved yet
+      if (stored && session) {
+        stored.lastActivityAt = Math.max(
+          stored.lastActivityAt,
+          session.lastActivityAt
+        )
+      }
+
+      if (!stored || this.isExpired(stored)) {
+        this.remove(id)
+
+        if (stored) {
+          await store.remove(id)
+        }
+
+        return undefined
+      }
+
+      session = stored
+      this.sessions.set(id, session)
+      this.savedAt.set(id, Date.now())
+      this.syncedAt.set(id, Date.now())
+    }
+
+    return session.instance === instance ? session : undefined
+  }
+
+  /**
+   * Get a session of the given instance from the store, even if this
+   * worker's copy is recent, to see a change saved by another worker
+   * @returns The session, or undefined if it is missing or expired
+   */
+  public async reload(
+    store: SessionStore,
+    id: string,
+    instance: string
+  ): Promise<MCPSession | undefined> {
+    this.syncedAt.delete(id)
+
+    return this.resolve(store, id, instance)
+  }
+
+  /**
+   * Save a session to the store
+   */
+  public async save(store: SessionStore, id: string): Promise<void> {
+    const session = this.sessions.get(id)
+
+    if (session) {
+      await store.save(session)
+      this.savedAt.set(id, Date.now())
+      this.syncedAt.set(id, Date.now())
+    }
+  }
+
+  /**
+   * Save a session to the store if its activity wasn't saved recently, so
+   * other workers don't consider it expired
+   */
+  public async saveActivity(store: SessionStore, id: string): Promise<void> {
+    if (Date.now() - (this.savedAt.get(id) ?? 0) > ACTIVITY_SAVE_INTERVAL_MS) {
+      await this.save(store, id)
+    }
+  }
+
+  /**
+   * Mark a session as active
+   */
+  public touch(id: string): void {
+    const session = this.sessions.get(id)
+
+    if (session) {
+      session.lastActivityAt = Date.now()
+    }
+  }
+
+  /**
+   * Remove a session and close its open streams
+   */
+  public remove(id: string): boolean {
+    const streams = this.streams.get(id)
+
+    if (streams) {
+      for (const stream of streams) {
+        stream.end()
+      }
+    }
+
+    this.streams.delete(id)
+    this.savedAt.delete(id)
+    this.syncedAt.delete(id)
+
+    return this.sessions.delete(id)
+  }
+
+  /**
+   * List the sessions of an instance
+   */
+  public findByInstance(instance: string): MCPSession[] {
+    return Array.from(this.sessions.values()).filter(
+      (session) => session.instance === instance
+    )
+  }
+
+  /**
+   * List all the sessions
+   */
+  public list(): MCPSession[] {
+    return Array.from(this.sessions.values())
+  }
+
+  /**
+   * Record the fingerprint of the tools list last seen by a session
+   */
+  public setToolsFingerprint(id: string, fingerprint?: string): void {
+    const session = this.sessions.get(id)
+
+    if (session) {
+      session.toolsFingerprint = fingerprint
+    }
+  }
+
+  /**
+   * Set the minimum level of the log messages forwarded to a session
+   */
+  public setLogLevel(id: string, level: MCPLogLevel): void {
+    const session = this.sessions.get(id)
+
+    if (session) {
+      session.logLevel = level
+    }
+  }
+
+  /**
+   * Record what was negotiated with the client of a session on initialize
+   */
+  public setClient(
+    id: string,
+    client: Pick<
+      MCPSession,
+      'protocolVersion' | 'clientInfo' | 'clientCapabilities'
+    >
+  ): void {
+    const session = this.sessions.get(id)
+
+    if (session) {
+      Object.assign(session, client)
+    }
+  }
+
+  /**
+   * Mark a session as ready, once the client sent notifications/initialized
+   */
+  public markReady(id: string): void {
+    const session = this.sessions.get(id)
+
+    if (session) {
+      session.ready = true
+    }
+  }
+
+  /**
+   * Subscribe a session to updates of a resource URI
+   */
+  public subscribe(id: string, uri: string): void {
+    const session = this.sessions.get(id)
+
+    if (session && !session.subscriptions.includes(uri)) {
+      session.subscriptions.push(uri)
+    }
+  }
+
+  /**
+   * Remove the subscription of a session to a resource URI
+   * @returns True if the session was subscribed to the URI
+   */
+  public unsubscribe(id: string, uri: string): boolean {
+    const session = this.sessions.get(id)
+
+    if (!session?.subscriptions.includes(uri)) {
+      return false
+    }
+
+    session.subscriptions = session.subscriptions.filter(
+      (subscription) => subscription !== uri
+    )
+
+    return true
+  }
+
+  /**
+   * List the subscriptions, across all sessions, whose URI matches
+   */
+  public findSubscriptions(
+    matches: (uri: string) => boolean
+  ): Array<{ sessionId: string; uri: string }> {
+    const result: Array<{ sessionId: string; uri: string }> = []
+
+    for (const session of this.sessions.values()) {
+      for (const uri of session.subscriptions) {
+        if (matches(uri)) {
+          result.push({ sessionId: session.id, uri })
+        }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Register a standalone SSE stream opened by the client for a session
+   */
+  public attachStream(id: string, stream: PassThrough): void {
+    const streams = this.streams.get(id) ?? new Set<PassThrough>()
+
+    streams.add(stream)
+    this.streams.set(id, streams)
+  }
+
+  /**
+   * Unregister a standalone SSE stream
+   */
+  public detachStream(id: string, stream: PassThrough): void {
+    const streams = this.streams.get(id)
+
+    if (!streams) {
+      return
+    }
+
+    streams.delete(stream)
+
+    if (streams.size === 0) {
+      this.streams.delete(id)
+    }
+  }
+
+  /**
+   * Send a message to the session through one of its open streams
+   * @returns True if the message was written to a stream
+   */
+  public send(id: string, message: unknown): boolean {
+    const streams = this.streams.get(id)
+
+    if (!streams) {
+      return false
+    }
+
+    for (const stream of streams) {
+      if (isEventStreamOpen(stream)) {
+        return writeEvent(stream, message)
+      }
+    }
+
+    return false
+  }
+
+  /**
+   * Remove the sessions that have been idle for longer than the TTL from
+   * this worker and from the store. Sessions another worker kept alive are
+   * only dropped from this worker.
+   */
+  private async removeIdleSessions(store: SessionStore): Promise<void> {
+    const idleSessions = Array.from(this.sessions.values()).filter((session) =>
+      this.isExpired(session)
+    )
+
+    await Promise.all(
+      idleSessions.map(async ({ id }) => {
+        this.remove(id)
+
+        const stored = await store.load(id)
+
+        if (stored && this.isExpired(stored)) {
+          await store.remove(id)
+        }
+      })
+    )
+  }
+
+  private isExpired(session: MCPSession): boolean {
+    return Date.now() - session.lastActivityAt > this.idleTTL
+  }
+
+  private isStale(id: string): boolean {
+    return (
+      Date.now() - (this.syncedAt.get(id) ?? 0) > SESSION_REFRESH_INTERVAL_MS
+    )
+  }
+}
+
+export const sessionRegistry = new SessionRegistry()
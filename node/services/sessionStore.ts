@@ -0,0 +1,86 @@
+import type { MCPSession } from './sessionRegistry'
+
+// VBase bucket holding one JSON file per session
+const SESSIONS_BUCKET = 'mcp_sessions'
+
+/**
+ * Persists MCP sessions so they outlive a worker and can be resolved by any
+ * replica. The session registry keeps the live state of the worker (streams,
+ * cached sessions) and loads sessions it doesn't know from the store.
+ */
+export interface SessionStore {
+  load(id: string): Promise<MCPSession | null>
+  save(session: MCPSession): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+/**
+ * Keeps sessions in the worker process. Sessions are only known by the
+ * replica that issued them.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, string>()
+
+  public async load(id: string): Promise<MCPSession | null> {
+    const stored = this.sessions.get(id)
+
+    return stored ? (JSON.parse(stored) as MCPSession) : null
+  }
+
+  public async save(session: MCPSession): Promise<void> {
+    this.sessions.set(session.id, JSON.stringify(session))
+  }
+
+  public async remove(id: string): Promise<void> {
+    this.sessions.delete(id)
+  }
+}
+
+/**
+ * Keeps sessions in VBase, shared by all replicas of the app
+ */
+export class VBaseSessionStore implements SessionStore {
+  constructor(private vbase: Context['clients']['vbase']) {}
+
+  public async load(id: string): Promise<MCPSession | null> {
+    return this.vbase.getJSON<MCPSession | null>(
+      SESSIONS_BUCKET,
+      toFileName(id),
+      true
+    )
+  }
+
+  public async save(session: MCPSession): Promise<void> {
+    await this.vbase.saveJSON(SESSIONS_BUCKET, toFileName(session.id), session)
+  }
+
+  public async remove(id: string): Promise<void> {
+    try {
+      await this.vbase.deleteFile(SESSIONS_BUCKET, toFileName(id))
+    } catch (error) {
+      // Already gone
+      if (error?.response?.status !== 404) {
+        throw error
+      }
+    }
+  }
+}
+
+const memorySessionStore = new MemorySessionStore()
+
+/**
+ * Gets the session store selected in the app settings (sessionSettings.store)
+ * @param ctx - The request context
+ * @returns The VBase store, or the in-memory store by default
+ */
+export function getSessionStore(ctx: Context | EvtContext): SessionStore {
+  const store = ctx.state.body?.appSettings?.sessionSettings?.store
+
+  return store === 'VBase'
+    ? new VBaseSessionStore(ctx.clients.vbase)
+    : memorySessionStore
+}
+
+function toFileName(id: string): string {
+  return `${encodeURIComponent(id)}.json`
+}
@@ -0,0 +1,241 @@
+import type {
+  OpenAPISpec,
+  SpecFetchResult,
+  SpecValidators,
+} from '../types/openapi'
+
+// How long a fetched specification is served without revalidation
+const FRESH_TTL_MS = 5 * 60 * 1000
+
+// How long after that a stale specification is still served, while it is
+// revalidated in the background
+const STALE_TTL_MS = 60 * 60 * 1000
+
+// Total size of the cached documents, in characters of the fetched text. The
+// parsed specifications take several times that much heap, and replicas may
+// have as little as 128 MB.
+const MAX_CACHE_SIZE = 10 * 1024 * 1024
+
+/**
+ * Fetches a specification, conditionally when validators are given
+ */
+export type SpecFetcher = (
+  validators?: SpecValidators
+) => Promise<SpecFetchResult>
+
+export interface SpecCacheOptions {
+  // Revalidate even a fresh entry, e.g. when an admin uploads the spec
+  revalidate?: boolean
+  // Called when a background revalidation fails; the stale entry is kept
+  onBackgroundError?: (error: Error) => void
+}
+
+interface SpecCacheEntry {
+  spec: OpenAPISpec
+  size: number
+  validators: SpecValidators
+  fetchedAt: number
+}
+
+/**
+ * Keeps the parsed OpenAPI specifications by specUrl, so requests don't
+ * download and validate them again. State lives in the worker process, like
+ * the session registry.
+ *
+ * Entries are fresh for FRESH_TTL_MS. Stale entries are served for another
+ * STALE_TTL_MS while they are revalidated in the background, after which
+ * requests wait for the revalidation. Revalidations send the ETag and
+ * Last-Modified of the entry, so unchanged documents are answered with 304.
+ * The least recently used entries are evicted when the cached documents
+ * exceed MAX_CACHE_SIZE.
+ */
+export class SpecCache {
+  // Map iteration follows insertion order: the first entry is the least
+  // recently used one
+  private readonly entries = new Map<string, SpecCacheEntry>()
+  private readonly pending = new Map<string, Promise<OpenAPISpec>>()
+  private size = 0
+
+  /**
+   * Get a specification, fetching it when it isn't cached or revalidating it
+   * when it's stale. Concurrent requests for the same URL share one fetch.
+   * @param specUrl - The URL of the specification
+   * @param fetcher - Fetches the specification, conditionally when validators are given
+   * @param options - Cache options
+   * @returns The parsed specification
+   */
+  public async get(
+    specUrl: string,
+    fetcher: SpecFetcher,
+    options: SpecCacheOptions = {}
+  ): Promise<OpenAPISpec> {
+    const entry = this.entries.get(specUrl)
+
+    if (entry && !options.revalidate) {
+      this.touch(specUrl, entry)
+
+      const age = Date.now() - entry.fetchedAt
+
+      if (age < FRESH_TTL_MS) {
+        return entry.spec
+      }
+
+      if (age < FRESH_TTL_MS + STALE_TTL_MS) {
+        this.revalidate(specUrl, fetcher).catch((error) =>
+          options.onBackgroundError?.(error)
+        )
+
+        return entry.spec
+      }
+    }
+
+    return this.revalidate(specUrl, fetcher)
+  }
+
+  /**
+   * Remove a specification, and ignore the result of its in-flight fetch
+   * @returns True if the specification was cached
+   */
+  public invalidate(specUrl: string): boolean {
+    this.pending.delete(specUrl)
+
+    return this.remove(specUrl)
+  }
+
+  /**
+   * Remove every specification
+   */
+  public clear(): void {
+    this.entries.clear()
+    this.pending.clear()
+    this.size = 0
+  }
+
+  /**
+   * Get cache statistics for debugging
+   */
+  public getStats(): { entries: number; size: number; urls: string[] } {
+    return {
+      entries: this.entries.size,
+      size: this.size,
+      urls: Array.from(this.entries.keys()),
+    }
+  }
+
+  /**
+   * Start a fetch of a specification, or join the one in flight
+   */
+  private revalidate(
+    specUrl: string,
+    fetcher: SpecFetcher
+  ): Promise<OpenAPISpec> {
+    const inFlight = this.pending.get(specUrl)
+
+    if (inFlight) {
+      return inFlight
+    }
+
+    const request: Promise<OpenAPISpec> = this.load(
+      specUrl,
+      fetcher,
+      () => this.pending.get(specUrl) === request
+    ).finally(() => {
+      if (this.pending.get(specUrl) === request) {
+        this.pending.delete(specUrl)
+      }
+    })
+
+    this.pending.set(specUrl, request)
+
+    return request
+  }
+
+  /**
+   * Fetch a specification, conditionally when it's cached, and store it
+   * unless it was invalidated meanwhile (isCurrent returns false)
+   */
+  private async load(
+    specUrl: string,
+    fetcher: SpecFetcher,
+    isCurrent: () => boolean
+  ): Promise<OpenAPISpec> {
+    const result = await fetcher(this.entries.get(specUrl)?.validators)
+
+    if (result.notModified) {
+      const entry = this.entries.get(specUrl)
+
+      // Invalidated while revalidating: fetch the whole document again
+      if (!entry) {
+        return this.load(specUrl, fetcher, isCurrent)
+      }
+
+      entry.fetchedAt = Date.now()
+      entry.validators = result.validators
+
+      return entry.spec
+    }
+
+    if (isCurrent()) {
+      this.set(specUrl, {
+        spec: result.spec,
+        size: result.size,
+        validators: result.validators,
+        fetchedAt: Date.now(),
+      })
+    }
+
+    return result.spec
+  }
+
+  /**
+   * Store an entry as the most recently used one, evicting the least
+   * recently used entries beyond MAX_CACHE_SIZE. Documents larger than the
+   * whole cache are not stored.
+   */
+  private set(specUrl: string, entry: SpecCacheEntry): void {
+    this.remove(specUrl)
+
+    if (entry.size > MAX_CACHE_SIZE) {
+      return
+    }
+
+    this.entries.set(specUrl, entry)
+    this.size += entry.size
+
+    for (const [url, cached] of this.entries) {
+      if (this.size <= MAX_CACHE_SIZE) {
+        break
+      }
+
+      this.entries.delete(url)
+      this.size -= cached.size
+    }
+  }
+
+  /**
+   * Remove an entry
+   * @returns True if there was one
+   */
+  private remove(specUrl: string): boolean {
+    const entry = this.entries.get(specUrl)
+
+    if (!entry) {
+      return false
+    }
+
+    this.entries.delete(specUrl)
+    this.size -= entry.size
+
+    return true
+  }
+
+  /**
+   * Mark an entry as the most recently used one
+   */
+  private touch(specUrl: string, entry: SpecCacheEntry): void {
+    this.entries.delete(specUrl)
+    this.entries.set(specUrl, entry)
+  }
+}
+
+export const specCache = new SpecCache()
@@ -0,0 +1,115 @@
+import { logToMasterData } from '../utils/logging'
+import {
+  checkToolsListChanged,
+  computeToolsFingerprint,
+} from '../utils/toolsChangeTracker'
+import { MasterDataService } from './masterDataService'
+import type { MCPSession } from './sessionRegistry'
+import { sessionRegistry } from './sessionRegistry'
+
+// Favorites are edited directly in MasterData, so changes are detected by
+// polling while sessions have a stream open
+const TOOLS_CHECK_INTERVAL_MS = 20 * 1000
+
+interface Watcher {
+  ctx: Context
+  sessionId: string
+}
+
+interface InstancePoll {
+  watchers: Set<Watcher>
+  timer: NodeJS.Timeout
+  checking: boolean
+}
+
+/**
+ * Polls the tools of the instances whose sessions have a stream open and
+ * sends notifications/tools/list_changed to the sessions whose tools list
+ * changed. The streams of an instance share one poll, so the specs and
+ * favorites are loaded once per interval whatever the number of streams.
+ * State lives in the worker process, like the session registry.
+ */
+export class ToolsWatcher {
+  private readonly polls = new Map<string, InstancePoll>()
+
+  constructor(private readonly intervalMs = TOOLS_CHECK_INTERVAL_MS) {}
+
+  /**
+   * Watch the tools of a session while its stream is open. The first stream
+   * of an instance starts its poll with an immediate check.
+   * @param ctx - The context of the stream request
+   * @returns A function that stops watching
+   */
+  public watch(ctx: Context, instance: string, sessionId: string): () => void {
+    const watcher: Watcher = { ctx, sessionId }
+    let poll = this.polls.get(instance)
+
+    if (!poll) {
+      poll = {
+        watchers: new Set(),
+        timer: setInterval(() => this.check(instance), this.intervalMs),
+        checking: false,
+      }
+      this.polls.set(instance, poll)
+      poll.watchers.add(watcher)
+      this.check(instance)
+    } else {
+      poll.watchers.add(watcher)
+    }
+
+    const instancePoll = poll
+
+    // Streams call it when they close and when they finish
+    return () => {
+      if (!instancePoll.watchers.delete(watcher)) {
+        return
+      }
+
+      if (instancePoll.watchers.size === 0) {
+        clearInterval(instancePoll.timer)
+        this.polls.delete(instance)
+      }
+    }
+  }
+
+  private async check(instance: string): Promise<void> {
+    const poll = this.polls.get(instance)
+
+    if (!poll || poll.checking) {
+      return
+    }
+
+    const watchers = [...poll.watchers]
+    // The most recent stream has the longest time left to run
+    const { ctx } = watchers[watchers.length - 1]
+
+    poll.checking = true
+
+    try {
+      const fingerprint = await computeToolsFingerprint(
+        new MasterDataService(ctx),
+        instance
+      )
+
+      const sessionIds = new Set(watchers.map((watcher) => watcher.sessionId))
+      const sessions = [...sessionIds]
+        .map((sessionId) => sessionRegistry.get(sessionId, instance))
+        .filter((session): session is MCPSession => !!session)
+
+      await Promise.all(
+        sessions.map((session) =>
+          checkToolsListChanged(ctx, session, fingerprint)
+        )
+      )
+    } catch (error) {
+      logToMasterData(ctx, 'toolsWatcher', 'service', 'error', {
+        error,
+        message: 'Failed to check MCP tools list changes',
+      })
+    } finally {
+      poll.checking = false
+    }
+  }
+}
+
+export const toolsWatcher = new ToolsWatcher()
@@ -12,6 +12,12 @@ export interface MCPConfig {
   disabledMethods?: HTTPMethod[]
   /** Whether to exclude favorite APIs from being published */
   excludeFavorites?: boolean
+  /** Maximum number of items per page on tools/list and resources/list */
+  pageSize?: number
+  /** Operations that need user confirmation: operationIds, HTTP methods or "METHOD /path" entries */
+  confirmOperations?: string[]
+  /** Whether to send request bodies without validating them against the operation schema */
+  skipBodyValidation?: boolean
 }
 
 /**
@@ -45,4 +51,7 @@ export const DEFAULT_MCP_CONFIG: MCPConfig = {
   description: '',
   disabledMethods: [],
   excludeFavorites: false,
+  pageSize: 100,
+  confirmOperations: [],
+  skipBodyValidation: false,
 }
@@ -9,11 +9,17 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: '2.0'
-  id: string | number
+  id: string | number | null
   result?: any
   error?: MCPError
 }
 
+export interface MCPNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: Record<string, any>
+}
+
 export interface MCPError {
   code: number
   message: string
@@ -28,14 +34,39 @@ export type MCPMethod =
   | 'mcp/tools/call'
   | 'mcp/resources/list'
   | 'mcp/resources/read'
+  | 'mcp/resources/templates/list'
+  | 'mcp/resources/subscribe'
+  | 'mcp/resources/unsubscribe'
+  | 'mcp/prompts/list'
+  | 'mcp/prompts/get'
+  | 'mcp/completion/complete'
+  | 'mcp/logging/setLevel'
   | 'mcp/notifications/initialized'
+  | 'mcp/notifications/cancelled'
   | 'handshake'
   | 'initialize'
   | 'tools/list'
   | 'tools/call'
   | 'resources/list'
   | 'resources/read'
+  | 'resources/templates/list'
+  | 'resources/subscribe'
+  | 'resources/unsubscribe'
+  | 'prompts/list'
+  | 'prompts/get'
+  | 'completion/complete'
+  | 'logging/setLevel'
   | 'notifications/initialized'
+  | 'notifications/cancelled'
+
+// Tool Annotations (hints for clients, not guarantees)
+export interface MCPToolAnnotations {
+  title?: string
+  readOnlyHint?: boolean
+  destructiveHint?: boolean
+  idempotentHint?: boolean
+  openWorldHint?: boolean
+}
 
 // Tool Definition
 export interface MCPTool {
@@ -46,6 +77,14 @@ export interface MCPTool {
     properties: Record<string, any>
     required?: string[]
   }
+  // Only listed for clients on protocol version 2025-06-18 or later
+  outputSchema?: {
+    type: 'object'
+    properties?: Record<string, any>
+    required?: string[]
+    [keyword: string]: any
+  }
+  annotations?: MCPToolAnnotations
 }
 
 // Resource Definition
@@ -59,28 +98,58 @@ export interface MCPResource {
 // Tools/List Response
 export interface MCPToolsListResponse {
   tools: MCPTool[]
+  nextCursor?: string
 }
 
 // Tools/Call Request
 export interface MCPToolsCallRequest {
   name: string
   arguments: Record<string, any>
+  _meta?: {
+    progressToken?: string | number
+  }
 }
 
 // Tools/Call Response
 export interface MCPToolsCallResponse {
   content: Array<{
-    type: 'text' | 'image' | 'resource'
+    type: 'text' | 'image' | 'resource' | 'resource_link'
     text?: string
     data?: string
     mimeType?: string
+    // resource_link fields, only returned on protocol version 2025-06-18 or later
+    uri?: string
+    name?: string
+    description?: string
   }>
+  // Only returned to clients on protocol version 2025-06-18 or later
+  structuredContent?: Record<string, any>
   isError?: boolean
 }
 
+// Resource Template Definition
+export interface MCPResourceTemplate {
+  uriTemplate: string
+  name: string
+  title?: string
+  description?: string
+  mimeType?: string
+}
+
 // Resources/List Response
 export interface MCPResourcesListResponse {
   resources: MCPResource[]
+  nextCursor?: string
+}
+
+// Tools/List and Resources/List Request
+export interface MCPPaginatedRequest {
+  cursor?: string
+}
+
+// Resources/Templates/List Response
+export interface MCPResourceTemplatesListResponse {
+  resourceTemplates: MCPResourceTemplate[]
 }
 
 // Resources/Read Request
@@ -98,6 +167,125 @@ export interface MCPResourcesReadResponse {
   }>
 }
 
+// Resources/Subscribe and Resources/Unsubscribe Request
+export interface MCPResourcesSubscribeRequest {
+  uri: string
+}
+
+// Prompt Argument Definition
+export interface MCPPromptArgument {
+  name: string
+  description?: string
+  required?: boolean
+}
+
+// Prompt Definition
+export interface MCPPrompt {
+  name: string
+  title?: string
+  description?: string
+  arguments?: MCPPromptArgument[]
+}
+
+// Prompt Message
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant'
+  content: {
+    type: 'text'
+    text: string
+  }
+}
+
+// Prompts/List Response
+export interface MCPPromptsListResponse {
+  prompts: MCPPrompt[]
+}
+
+// Prompts/Get Request
+export interface MCPPromptsGetRequest {
+  name: string
+  arguments?: Record<string, string>
+}
+
+// Prompts/Get Response
+export interface MCPPromptsGetResponse {
+  description?: string
+  messages: MCPPromptMessage[]
+}
+
+// Completion Reference (ref/tool is an extension of this server)
+export type MCPCompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string }
+  | { type: 'ref/tool'; name: string }
+
+// Completion/Complete Request
+export interface MCPCompletionCompleteRequest {
+  ref: MCPCompletionReference
+  argument: {
+    name: string
+    value: string
+  }
+  context?: {
+    arguments?: Record<string, string>
+  }
+}
+
+// Completion/Complete Response
+export interface MCPCompletionCompleteResponse {
+  completion: {
+    values: string[]
+    total?: number
+    hasMore?: boolean
+  }
+}
+
+// Log levels (RFC 5424 severities, lowest first)
+export type MCPLogLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency'
+
+// Logging/SetLevel Request
+export interface MCPLoggingSetLevelRequest {
+  level: MCPLogLevel
+}
+
+// Notifications/Progress Params
+export interface MCPProgressNotification {
+  progressToken: string | number
+  progress: number
+  total?: number
+  message?: string
+}
+
+// Notifications/Cancelled Params
+export interface MCPCancelledNotification {
+  requestId: string | number
+  reason?: string
+}
+
+// Elicitation/Create Request (sent by the server)
+export interface MCPElicitationCreateRequest {
+  message: string
+  requestedSchema: {
+    type: 'object'
+    properties: Record<string, any>
+    required?: string[]
+  }
+}
+
+// Elicitation/Create Result (sent by the client)
+export interface MCPElicitationCreateResult {
+  action: 'accept' | 'decline' | 'cancel'
+  content?: Record<string, string | number | boolean>
+}
+
 // Handshake Request
 export interface MCPHandshakeRequest {
   version?: string
@@ -122,6 +310,7 @@ export interface MCPInitializeRequest {
   capabilities: {
     tools?: Record<string, unknown>
     resources?: Record<string, unknown>
+    elicitation?: Record<string, unknown>
   }
   clientInfo: {
     name: string
@@ -135,6 +324,9 @@ export interface MCPInitializeResponse {
   capabilities: {
     tools?: Record<string, unknown>
     resources?: Record<string, unknown>
+    prompts?: Record<string, unknown>
+    completions?: Record<string, unknown>
+    logging?: Record<string, unknown>
   }
   serverInfo: {
     name: string
@@ -6,6 +6,15 @@ export interface OpenAPISpec {
   servers?: OpenAPIServer[]
   paths: Record<string, OpenAPIPathItem>
   components?: OpenAPIComponents
+  security?: OpenAPISecurityRequirement[]
+  tags?: OpenAPITag[]
+  externalDocs?: OpenAPIExternalDocumentation
+}
+
+export interface OpenAPITag {
+  name: string
+  description?: string
+  externalDocs?: OpenAPIExternalDocumentation
 }
 
 export interface OpenAPIInfo {
@@ -49,6 +58,7 @@ export interface OpenAPIPathItem {
   delete?: OpenAPIOperation
   head?: OpenAPIOperation
   options?: OpenAPIOperation
+  servers?: OpenAPIServer[]
   parameters?: (OpenAPIParameter | OpenAPIReference)[]
 }
 
@@ -170,6 +180,8 @@ export interface OpenAPISchema {
   anyOf?: (OpenAPISchema | OpenAPIReference)[]
   not?: OpenAPISchema | OpenAPIReference
   discriminator?: OpenAPIDiscriminator
+  // OpenAPI 3.0: null is allowed besides the type
+  nullable?: boolean
   readOnly?: boolean
   writeOnly?: boolean
   xml?: OpenAPIXML
@@ -264,6 +276,70 @@ export interface OpenAPISecurityRequirement {
   [name: string]: string[]
 }
 
+// Swagger 2.0 documents, converted to OpenAPI 3 when they are ingested.
+// Only the fields the converter reads are typed.
+export interface Swagger2Spec {
+  swagger: string
+  info: OpenAPIInfo
+  host?: string
+  basePath?: string
+  schemes?: string[]
+  consumes?: string[]
+  produces?: string[]
+  paths: Record<string, Record<string, any>>
+  definitions?: Record<string, any>
+  parameters?: Record<string, any>
+  responses?: Record<string, any>
+  securityDefinitions?: Record<string, any>
+  security?: OpenAPISecurityRequirement[]
+  tags?: OpenAPITag[]
+  externalDocs?: OpenAPIExternalDocumentation
+}
+
+// Validators of a fetched specification, sent back on conditional requests
+export interface SpecValidators {
+  etag?: string
+  lastModified?: string
+}
+
+// Outcome of a conditional specification request: the unchanged document
+// (304) or the fetched one, with its size in characters and content hash
+export type SpecFetchResult =
+  | { notModified: true; validators: SpecValidators }
+  | {
+      notModified: false
+      spec: OpenAPISpec
+      size: number
+      hash: string
+      validators: SpecValidators
+    }
+
+// Entry of the operation index of a specification
+export interface IndexedOperation {
+  operationId?: string
+  // Upper case HTTP method
+  method: string
+  // OpenAPI path template
+  path: string
+  summary?: string
+  // Description of the operation or its path, when it has no summary
+  description?: string
+  tags?: string[]
+  // Path-level and operation parameters, with references resolved
+  parameters: OpenAPIParameter[]
+  // Reference of the request body or its schema, e.g. #/components/schemas/Order
+  requestBodyRef?: string
+}
+
+// Operation index saved for a specification document
+export interface PersistedOperationIndex {
+  specUrl: string
+  // Hash of the document the index was built from
+  specHash: string
+  builtAt: string
+  operations: IndexedOperation[]
+}
+
 // Utility types for API execution
 export interface APIExecutionContext {
   apiGroup: string
@@ -279,6 +355,8 @@ export interface APIExecutionContext {
 export interface ResolvedParameters {
   pathParams: Record<string, any>
   queryParams: Record<string, any>
+  // queryParams serialized as the spec describes, without the leading ?
+  queryString: string
   headers: Record<string, any>
   body?: any
 }
@@ -0,0 +1,35 @@
+import { MAX_COMPLETION_VALUES, matchCompletions } from '../completionMatcher'
+
+describe('matchCompletions', () => {
+  it('ranks prefix, then substring, then fuzzy matches', () => {
+    expect(
+      matchCompletions(
+        ['Search Orders', 'Orders', 'Order Hook', 'OMS', 'Logistics', 'Orders'],
+        ' ord'
+      )
+    ).toEqual({
+      values: ['Orders', 'Order Hook', 'Search Orders'],
+      total: 3,
+      hasMore: false,
+    })
+    expect(
+      matchCompletions(['Catalog', 'Checkout', 'Logistics'], 'ctg').values
+    ).toEqual(['Catalog'])
+  })
+
+  it('returns every candidate for an empty value, shortest first', () => {
+    expect(matchCompletions(['Catalog', 'OMS'], '').values).toEqual([
+      'OMS',
+      'Catalog',
+    ])
+  })
+
+  it('returns at most MAX_COMPLETION_VALUES values', () => {
+    const candidates = Array.from({ length: 150 }, (_, index) => `sku-${index}`)
+    const matches = matchCompletions(candidates, 'sku')
+
+    expect(matches.values).toHaveLength(MAX_COMPLETION_VALUES)
+    expect(matches.total).toBe(150)
+    expect(matches.hasMore).toBe(true)
+  })
+})
@@ -0,0 +1,124 @@
+import type { OpenAPISpec } from '../../types/openapi'
+import { getOperationIndex } from '../operationIndex'
+import { deriveOutputSchema, toStructuredContent } from '../outputSchema'
+
+const spec: OpenAPISpec = {
+  openapi: '3.0.0',
+  info: { title: 'Test', version: '1' },
+  paths: {
+    '/orders/{orderId}': {
+      get: {
+        operationId: 'getOrder',
+        responses: {
+          '201': { description: 'Not the lowest code' },
+          '200': {
+            description: 'The order',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Order' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/orders': {
+      get: {
+        operationId: 'listOrders',
+        responses: {
+          '200': {
+            description: 'The orders',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Order' },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        operationId: 'createOrder',
+        responses: { '204': { description: 'No content' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Order: {
+        type: 'object',
+        required: ['orderId'],
+        properties: {
+          orderId: { type: 'string' },
+          value: { type: 'integer' },
+        },
+      },
+    },
+  },
+}
+
+describe('deriveOutputSchema', () => {
+  it('inlines the schema of the lowest 2xx JSON response', () => {
+    const operation = spec.paths['/orders/{orderId}'].get
+
+    expect(deriveOutputSchema(spec, operation)).toEqual({
+      schema: {
+        type: 'object',
+        required: ['orderId'],
+        properties: {
+          orderId: { type: 'string' },
+          value: { type: 'integer' },
+        },
+      },
+      wrapped: false,
+    })
+  })
+
+  it('wraps schemas that are not objects in { data }', () => {
+    const outputSchema = deriveOutputSchema(spec, spec.paths['/orders'].get)
+
+    expect(outputSchema?.wrapped).toBe(true)
+    expect(outputSchema?.schema.required).toEqual(['data'])
+    expect(outputSchema?.schema.properties?.data).toMatchObject({
+      type: 'array',
+    })
+  })
+
+  it('returns null without a JSON 2xx response', () => {
+    expect(deriveOutputSchema(spec, spec.paths['/orders'].post)).toBeNull()
+  })
+})
+
+describe('toStructuredContent', () => {
+  const index = getOperationIndex(spec)
+  const getOrder = index.getOutputSchema(spec, index.findById('getOrder')!)!
+  const listOrders = index.getOutputSchema(spec, index.findById('listOrders')!)!
+
+  it('returns the data that matches the output schema', () => {
+    expect(
+      toStructuredContent({ orderId: '1172452900788-01', value: 10 }, getOrder)
+    ).toEqual({ orderId: '1172452900788-01', value: 10 })
+    expect(toStructuredContent([{ orderId: '1' }], listOrders)).toEqual({
+      data: [{ orderId: '1' }],
+    })
+  })
+
+  it('returns undefined when the data does not match', () => {
+    expect(toStructuredContent({ value: 'ten' }, getOrder)).toBeUndefined()
+    expect(toStructuredContent([{ value: 1 }], listOrders)).toBeUndefined()
+    expect(toStructuredContent('text', getOrder)).toBeUndefined()
+  })
+})
+
+describe('OperationIndex.getOutputSchema', () => {
+  it('derives the output schema of an operation once', () => {
+    const index = getOperationIndex(spec)
+    const entry = index.findById('getOrder')!
+
+    expect(index.getOutputSchema(spec, entry)).toBe(
+      index.getOutputSchema(spec, entry)
+    )
+  })
+})
@@ -0,0 +1,49 @@
+import { DEFAULT_MCP_CONFIG } from '../../types'
+import { getPageSize, paginate } from '../pagination'
+
+const items = ['a', 'b', 'c', 'd', 'e']
+
+describe('paginate', () => {
+  it('returns pages linked by cursors until the last one', () => {
+    const first = paginate('tools', items, undefined, 2)
+
+    expect(first?.items).toEqual(['a', 'b'])
+
+    const second = paginate('tools', items, first?.nextCursor, 2)
+
+    expect(second?.items).toEqual(['c', 'd'])
+
+    expect(paginate('tools', items, second?.nextCursor, 2)).toEqual({
+      items: ['e'],
+    })
+  })
+
+  it('rejects invalid cursors and cursors of other lists', () => {
+    const { nextCursor } = paginate('tools', items, null, 2)!
+
+    expect(paginate('resources', items, nextCursor, 2)).toBeNull()
+    expect(paginate('tools', items, 'not a cursor', 2)).toBeNull()
+    expect(paginate('tools', items, '', 2)).toBeNull()
+    expect(paginate('tools', items, 2, 2)).toBeNull()
+    expect(paginate('tools', items.slice(0, 1), nextCursor, 2)).toBeNull()
+  })
+})
+
+describe('getPageSize', () => {
+  it('uses the configured page size up to the maximum', () => {
+    expect(getPageSize({ ...DEFAULT_MCP_CONFIG, pageSize: 10 })).toBe(10)
+    expect(getPageSize({ ...DEFAULT_MCP_CONFIG, pageSize: 5000 })).toBe(1000)
+  })
+
+  it('falls back to the default for missing or invalid sizes', () => {
+    const defaultSize = DEFAULT_MCP_CONFIG.pageSize
+
+    expect(getPageSize(undefined)).toBe(defaultSize)
+    expect(getPageSize({ ...DEFAULT_MCP_CONFIG, pageSize: 0 })).toBe(
+      defaultSize
+    )
+    expect(getPageSize({ ...DEFAULT_MCP_CONFIG, pageSize: 2.5 })).toBe(
+      defaultSize
+    )
+  })
+})
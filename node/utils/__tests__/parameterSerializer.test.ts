@@ -0,0 +1,205 @@
+import type { OpenAPIParameter } from '../../types/openapi'
+import {
+  coerceParameterValue,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQuery,
+  serializeQueryParameter,
+} from '../parameterSerializer'
+
+const pathParameter = (
+  style?: OpenAPIParameter['style'],
+  explode?: boolean
+): OpenAPIParameter => ({ name: 'id', in: 'path', style, explode })
+
+const queryParameter = (
+  style?: OpenAPIParameter['style'],
+  explode?: boolean
+): OpenAPIParameter => ({ name: 'ids', in: 'query', style, explode })
+
+describe('serializePathParameter', () => {
+  it('serializes the simple style by default', () => {
+    expect(serializePathParameter(pathParameter(), 'a/b c')).toBe('a%2Fb%20c')
+    expect(serializePathParameter(pathParameter(), [1, 2])).toBe('1,2')
+    expect(serializePathParameter(pathParameter(), { a: 1, b: 2 })).toBe(
+      'a,1,b,2'
+    )
+    expect(
+      serializePathParameter(pathParameter('simple', true), { a: 1, b: 2 })
+    ).toBe('a=1,b=2')
+  })
+
+  it('serializes the label style', () => {
+    expect(serializePathParameter(pathParameter('label'), 'x')).toBe('.x')
+    expect(serializePathParameter(pathParameter('label'), [3, 4])).toBe('.3,4')
+    expect(serializePathParameter(pathParameter('label', true), [3, 4])).toBe(
+      '.3.4'
+    )
+  })
+
+  it('serializes the matrix style', () => {
+    expect(serializePathParameter(pathParameter('matrix'), 'x y')).toBe(
+      ';id=x%20y'
+    )
+    expect(serializePathParameter(pathParameter('matrix'), [1, 2])).toBe(
+      ';id=1,2'
+    )
+    expect(serializePathParameter(pathParameter('matrix', true), [1, 2])).toBe(
+      ';id=1;id=2'
+    )
+    expect(serializePathParameter(pathParameter('matrix'), { a: 1 })).toBe(
+      ';id=a,1'
+    )
+    expect(
+      serializePathParameter(pathParameter('matrix', true), { a: 1, b: 2 })
+    ).toBe(';a=1;b=2')
+  })
+})
+
+describe('serializeQueryParameter', () => {
+  it('explodes form style arrays and objects by default', () => {
+    expect(serializeQueryParameter(queryParameter(), [1, 2])).toEqual([
+      'ids=1',
+      'ids=2',
+    ])
+    expect(
+      serializeQueryParameter(queryParameter(), { status: 'ready', page: 1 })
+    ).toEqual(['status=ready', 'page=1'])
+  })
+
+  it('joins non-exploded values with the delimiter of the style', () => {
+    expect(
+      serializeQueryParameter(queryParameter('form', false), [1, 2])
+    ).toEqual(['ids=1,2'])
+    expect(
+      serializeQueryParameter(queryParameter('form', false), { a: 1, b: 2 })
+    ).toEqual(['ids=a,1,b,2'])
+    expect(
+      serializeQueryParameter(queryParameter('spaceDelimited'), [1, 2])
+    ).toEqual(['ids=1%202'])
+    expect(
+      serializeQueryParameter(queryParameter('pipeDelimited'), [1, 2])
+    ).toEqual(['ids=1|2'])
+  })
+
+  it('serializes deepObject values with nested brackets', () => {
+    expect(
+      serializeQueryParameter(
+        { name: 'filter', in: 'query', style: 'deepObject' },
+        { status: 'ready', price: { min: 1 }, tags: ['a', 'b'], skip: null }
+      )
+    ).toEqual([
+      'filter[status]=ready',
+      'filter[price][min]=1',
+      'filter[tags]=a',
+      'filter[tags]=b',
+    ])
+  })
+
+  it('keeps reserved characters only with allowReserved', () => {
+    const value = 'a/b?c=d e'
+
+    expect(serializeQueryParameter({ name: 'q', in: 'query' }, value)).toEqual([
+      'q=a%2Fb%3Fc%3Dd%20e',
+    ])
+    expect(
+      serializeQueryParameter(
+        { name: 'q', in: 'query', allowReserved: true },
+        value
+      )
+    ).toEqual(['q=a/b?c=d%20e'])
+  })
+
+  it('sends parameters with content as JSON', () => {
+    expect(
+      serializeQueryParameter(
+        { name: 'q', in: 'query', content: { 'application/json': {} } },
+        { a: 1 }
+      )
+    ).toEqual(['q=%7B%22a%22%3A1%7D'])
+  })
+})
+
+describe('serializeHeaderParameter', () => {
+  it('serializes the simple style without percent-encoding', () => {
+    const header: OpenAPIParameter = { name: 'X-Tags', in: 'header' }
+
+    expect(serializeHeaderParameter(header, 'a b')).toBe('a b')
+    expect(serializeHeaderParameter(header, ['a', 'b'])).toBe('a,b')
+    expect(
+      serializeHeaderParameter({ ...header, explode: true }, { a: 1, b: 2 })
+    ).toBe('a=1,b=2')
+  })
+})
+
+describe('serializeQuery', () => {
+  it('serializes values as exploded form parameters and skips empty ones', () => {
+    expect(serializeQuery({ a: 'x y', b: undefined, c: [1, 2], d: null })).toBe(
+      'a=x%20y&c=1&c=2'
+    )
+  })
+})
+
+describe('coerceParameterValue', () => {
+  const withSchema = (
+    schema: Record<string, any>,
+    style?: OpenAPIParameter['style']
+  ): OpenAPIParameter => ({ name: 'value', in: 'query', style, schema })
+
+  it('converts strings to the schema type', () => {
+    expect(coerceParameterValue(withSchema({ type: 'integer' }), ' 42 ')).toBe(
+      42
+    )
+    expect(coerceParameterValue(withSchema({ type: 'number' }), '1.5')).toBe(
+      1.5
+    )
+    expect(coerceParameterValue(withSchema({ type: 'boolean' }), 'TRUE')).toBe(
+      true
+    )
+    expect(
+      coerceParameterValue(withSchema({ type: 'object' }), '{"a":1}')
+    ).toEqual({ a: 1 })
+    expect(
+      coerceParameterValue(withSchema({ type: ['null', 'integer'] }), '7')
+    ).toBe(7)
+  })
+
+  it('splits array strings by the delimiter of the style', () => {
+    const integers = { type: 'array', items: { type: 'integer' } }
+
+    expect(coerceParameterValue(withSchema(integers), '1,2')).toEqual([1, 2])
+    expect(
+      coerceParameterValue(withSchema(integers, 'pipeDelimited'), '1|2')
+    ).toEqual([1, 2])
+    expect(coerceParameterValue(withSchema(integers), '[1, 2]')).toEqual([1, 2])
+    expect(coerceParameterValue(withSchema(integers), '')).toEqual([])
+    expect(coerceParameterValue(withSchema(integers), 3)).toEqual([3])
+  })
+
+  it('keeps values that are not strings or have no schema type', () => {
+    expect(coerceParameterValue(withSchema({ type: 'integer' }), 5)).toBe(5)
+    expect(coerceParameterValue(withSchema({}), '5')).toBe('5')
+    expect(coerceParameterValue({ name: 'value', in: 'query' }, '5')).toBe('5')
+  })
+
+  it('throws when a string does not match the schema type', () => {
+    expect(() =>
+      coerceParameterValue(withSchema({ type: 'integer' }), '4.2')
+    ).toThrow("Parameter 'value' (query) must be an integer, got '4.2'")
+    expect(() =>
+      coerceParameterValue(withSchema({ type: 'number' }), '')
+    ).toThrow('must be a number')
+    expect(() =>
+      coerceParameterValue(withSchema({ type: 'boolean' }), 'yes')
+    ).toThrow('must be a boolean')
+    expect(() =>
+      coerceParameterValue(withSchema({ type: 'object' }), 'a=1')
+    ).toThrow('must be an object')
+    expect(() =>
+      coerceParameterValue(withSchema({ type: 'object' }), '{bad')
+    ).toThrow("must be an object, got '{bad'")
+    expect(() =>
+      coerceParameterValue(withSchema({ type: 'array' }), '[1')
+    ).toThrow('must be an array')
+  })
+})
@@ -0,0 +1,121 @@
+import type { PromptDocument } from '../../services/masterDataService'
+import {
+  renderPromptMessages,
+  resolvePromptArguments,
+  toMCPPrompt,
+} from '../promptRenderer'
+
+const prompt: PromptDocument = {
+  id: 'prompt-1',
+  instance: 'default',
+  name: 'order-summary',
+  title: 'Order summary',
+  description: 'Summarizes an order',
+  enabled: true,
+  arguments: [
+    { name: 'orderId', description: 'The order', required: true },
+    { name: 'items', type: 'integer' },
+    { name: 'detailed', type: 'boolean' },
+    { name: 'tone', enum: ['short', 'formal'] },
+  ],
+  messages: [
+    { role: 'user', text: 'Summarize order {{orderId}} in a {{ tone }} tone.' },
+    { role: 'assistant', text: 'Showing {{items}} items of {{orderId}}.' },
+  ],
+}
+
+describe('toMCPPrompt', () => {
+  it('lists the arguments with their required flag', () => {
+    expect(toMCPPrompt(prompt)).toEqual({
+      name: 'order-summary',
+      title: 'Order summary',
+      description: 'Summarizes an order',
+      arguments: [
+        { name: 'orderId', description: 'The order', required: true },
+        { name: 'items', description: undefined, required: false },
+        { name: 'detailed', description: undefined, required: false },
+        { name: 'tone', description: undefined, required: false },
+      ],
+    })
+  })
+})
+
+describe('resolvePromptArguments', () => {
+  it('returns the values of valid arguments as strings', () => {
+    expect(
+      resolvePromptArguments(prompt, {
+        orderId: '1172452900788-01',
+        items: 3,
+        detailed: 'true',
+        tone: 'formal',
+      })
+    ).toEqual({
+      values: {
+        orderId: '1172452900788-01',
+        items: '3',
+        detailed: 'true',
+        tone: 'formal',
+      },
+      errors: [],
+    })
+  })
+
+  it('reports missing required arguments and skips empty optional ones', () => {
+    expect(resolvePromptArguments(prompt, { orderId: '', tone: null })).toEqual(
+      { values: {}, errors: ['Missing required argument: orderId'] }
+    )
+    expect(resolvePromptArguments(prompt, undefined).errors).toEqual([
+      'Missing required argument: orderId',
+    ])
+  })
+
+  it('reports unknown arguments', () => {
+    expect(
+      resolvePromptArguments(prompt, { orderId: '1', language: 'pt' }).errors
+    ).toEqual(['Unknown argument: language'])
+  })
+
+  it('reports values that do not match the type or enum', () => {
+    expect(
+      resolvePromptArguments(prompt, {
+        orderId: '1',
+        items: '2.5',
+        detailed: 'yes',
+        tone: 'casual',
+      })
+    ).toEqual({
+      values: { orderId: '1' },
+      errors: [
+        'Argument items must be an integer',
+        'Argument detailed must be true or false',
+        'Argument tone must be one of: short, formal',
+      ],
+    })
+  })
+})
+
+describe('renderPromptMessages', () => {
+  it('replaces placeholders and leaves missing values empty', () => {
+    expect(
+      renderPromptMessages(prompt, {
+        orderId: '1172452900788-01',
+        tone: 'short',
+      })
+    ).toEqual([
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: 'Summarize order 1172452900788-01 in a short tone.',
+        },
+      },
+      {
+        role: 'assistant',
+        content: {
+          type: 'text',
+          text: 'Showing  items of 1172452900788-01.',
+        },
+      },
+    ])
+  })
+})
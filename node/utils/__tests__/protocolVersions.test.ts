@@ -0,0 +1,27 @@
+import {
+  LATEST_PROTOCOL_VERSION,
+  isFeatureSupported,
+  negotiateProtocolVersion,
+} from '../protocolVersions'
+
+describe('negotiateProtocolVersion', () => {
+  it('keeps supported versions and answers others with the latest', () => {
+    expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05')
+    expect(negotiateProtocolVersion('2099-01-01')).toBe(LATEST_PROTOCOL_VERSION)
+  })
+})
+
+describe('isFeatureSupported', () => {
+  it('enables features from the version that introduced them', () => {
+    expect(isFeatureSupported('2024-11-05', 'completions')).toBe(false)
+    expect(isFeatureSupported('2025-03-26', 'completions')).toBe(true)
+    expect(isFeatureSupported('2025-03-26', 'structuredOutput')).toBe(false)
+    expect(isFeatureSupported('2025-06-18', 'structuredOutput')).toBe(true)
+    expect(isFeatureSupported(undefined, 'completions')).toBe(false)
+  })
+
+  it('disables features removed in later versions', () => {
+    expect(isFeatureSupported('2025-03-26', 'batching')).toBe(true)
+    expect(isFeatureSupported('2025-06-18', 'batching')).toBe(false)
+  })
+})
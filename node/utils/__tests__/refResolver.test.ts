@@ -0,0 +1,218 @@
+import type { OpenAPISpec } from '../../types/openapi'
+import {
+  dereferenceSchema,
+  resolveOperationParameters,
+  resolveReference,
+} from '../refResolver'
+
+function buildSpec(schemas: Record<string, any>): OpenAPISpec {
+  return {
+    openapi: '3.0.0',
+    info: { title: 'Test', version: '1' },
+    paths: {},
+    components: {
+      schemas,
+      parameters: {
+        OrderId: {
+          name: 'orderId',
+          in: 'path',
+          required: true,
+          schema: { $ref: '#/components/schemas/Id' },
+        },
+        Alias: { $ref: '#/components/parameters/OrderId' },
+      },
+    },
+  }
+}
+
+describe('resolveReference', () => {
+  it('follows chains of references and keeps sibling keys', () => {
+    const spec = buildSpec({ Id: { type: 'string' } })
+
+    expect(
+      resolveReference(spec, {
+        $ref: '#/components/parameters/Alias',
+        description: 'The order',
+      })
+    ).toEqual({
+      name: 'orderId',
+      in: 'path',
+      required: true,
+      schema: { $ref: '#/components/schemas/Id' },
+      description: 'The order',
+    })
+  })
+
+  it('returns undefined for missing, external and cyclic references', () => {
+    const spec = buildSpec({
+      Loop: { $ref: '#/components/schemas/Loop' },
+    })
+
+    expect(
+      resolveReference(spec, { $ref: '#/components/schemas/Missing' })
+    ).toBeUndefined()
+    expect(
+      resolveReference(spec, { $ref: 'other.yaml#/Order' })
+    ).toBeUndefined()
+    expect(
+      resolveReference(spec, { $ref: '#/components/schemas/Loop' })
+    ).toBeUndefined()
+  })
+})
+
+describe('dereferenceSchema', () => {
+  it('inlines nested references', () => {
+    const spec = buildSpec({
+      Id: { type: 'string' },
+      Order: {
+        type: 'object',
+        properties: {
+          id: { $ref: '#/components/schemas/Id' },
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Item' },
+          },
+        },
+      },
+      Item: { type: 'object', properties: { sku: { type: 'string' } } },
+    })
+
+    expect(
+      dereferenceSchema(spec, { $ref: '#/components/schemas/Order' })
+    ).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        items: {
+          type: 'array',
+          items: { type: 'object', properties: { sku: { type: 'string' } } },
+        },
+      },
+    })
+  })
+
+  it('replaces cyclic references with unconstrained schemas', () => {
+    const spec = buildSpec({
+      Category: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          parent: { $ref: '#/components/schemas/Category' },
+        },
+      },
+    })
+
+    expect(
+      dereferenceSchema(spec, { $ref: '#/components/schemas/Category' })
+    ).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, parent: {} },
+    })
+  })
+
+  it('walks a shared reference once per specification', () => {
+    const spec = buildSpec({
+      Address: { type: 'object', properties: { city: { type: 'string' } } },
+      Order: {
+        type: 'object',
+        properties: {
+          billing: { $ref: '#/components/schemas/Address' },
+          shipping: { $ref: '#/components/schemas/Address' },
+        },
+      },
+    })
+
+    const order = dereferenceSchema(spec, {
+      $ref: '#/components/schemas/Order',
+    }) as any
+
+    expect(order.properties.billing).toBe(order.properties.shipping)
+    expect(
+      dereferenceSchema(spec, { $ref: '#/components/schemas/Order' })
+    ).toBe(order)
+  })
+
+  it('reuses schemas whose cycles were cut on their own branch', () => {
+    const spec = buildSpec({
+      A: {
+        type: 'object',
+        properties: { b: { $ref: '#/components/schemas/B' } },
+      },
+      B: {
+        type: 'object',
+        properties: { a: { $ref: '#/components/schemas/A' } },
+      },
+    })
+
+    const a = dereferenceSchema(spec, { $ref: '#/components/schemas/A' })
+
+    expect(a).toEqual({
+      type: 'object',
+      properties: { b: { type: 'object', properties: { a: {} } } },
+    })
+
+    // B was cut at A, so it is walked again and reuses A
+    const b = dereferenceSchema(spec, {
+      $ref: '#/components/schemas/B',
+    }) as any
+
+    expect(b.properties.a).toBe(a)
+  })
+
+  it('handles deeply shared references without exponential growth', () => {
+    const schemas: Record<string, any> = { Level0: { type: 'string' } }
+
+    for (let level = 1; level <= 30; level++) {
+      schemas[`Level${level}`] = {
+        type: 'object',
+        properties: {
+          left: { $ref: `#/components/schemas/Level${level - 1}` },
+          right: { $ref: `#/components/schemas/Level${level - 1}` },
+        },
+      }
+    }
+
+    const spec = buildSpec(schemas)
+    const schema = dereferenceSchema(spec, {
+      $ref: '#/components/schemas/Level30',
+    }) as any
+
+    expect(schema.properties.left).toBe(schema.properties.right)
+    expect(JSON.stringify(schema)).toContain('"left":{}')
+  })
+})
+
+describe('resolveOperationParameters', () => {
+  it('lets operation parameters override path-level ones', () => {
+    const spec = buildSpec({ Id: { type: 'string' } })
+
+    const parameters = resolveOperationParameters(
+      spec,
+      {
+        operationId: 'getOrder',
+        responses: {},
+        parameters: [
+          { $ref: '#/components/parameters/Alias' },
+          { name: 'fields', in: 'query', schema: { type: 'string' } },
+        ],
+      },
+      {
+        parameters: [
+          { name: 'orderId', in: 'path', required: true },
+          { name: 'an', in: 'query' },
+        ],
+      }
+    )
+
+    expect(parameters).toEqual([
+      {
+        name: 'orderId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      },
+      { name: 'an', in: 'query' },
+      { name: 'fields', in: 'query', schema: { type: 'string' } },
+    ])
+  })
+})
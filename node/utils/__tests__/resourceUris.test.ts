@@ -0,0 +1,69 @@
+import {
+  buildApiOperationUri,
+  buildApiSchemaUri,
+  buildApiSpecUri,
+  parseResourceUri,
+  parseResourceUriVariants,
+} from '../resourceUris'
+
+describe('parseResourceUri', () => {
+  it('reads back the URIs it builds', () => {
+    expect(parseResourceUri(buildApiSpecUri('Catalog API'))).toEqual({
+      kind: 'api-spec',
+      group: 'Catalog API',
+    })
+    expect(parseResourceUri(buildApiOperationUri('OMS', 'Orders/Get'))).toEqual(
+      { kind: 'api-operation', group: 'OMS', operationId: 'Orders/Get' }
+    )
+    expect(parseResourceUri(buildApiSchemaUri('OMS', 'Order'))).toEqual({
+      kind: 'api-schema',
+      group: 'OMS',
+      schemaName: 'Order',
+    })
+  })
+
+  it('rejects other schemes, kinds and segment counts', () => {
+    expect(parseResourceUri('https://api-spec/OMS')).toBeNull()
+    expect(parseResourceUri('vtex://api-other/OMS')).toBeNull()
+    expect(parseResourceUri('vtex://api-operation/OMS')).toBeNull()
+    expect(parseResourceUri('vtex://api-spec/')).toBeNull()
+    expect(parseResourceUri('vtex://api-spec/100%')).toBeNull()
+  })
+})
+
+describe('parseResourceUriVariants', () => {
+  it('reads current URIs once', () => {
+    expect(parseResourceUriVariants('vtex://api-spec/OMS')).toEqual([
+      { kind: 'api-spec', group: 'OMS' },
+    ])
+    expect(
+      parseResourceUriVariants('vtex://api-operation/OMS/GetOrder')
+    ).toEqual([
+      { kind: 'api-operation', group: 'OMS', operationId: 'GetOrder' },
+    ])
+  })
+
+  it('reads encoded API group URIs in both encodings, current first', () => {
+    expect(parseResourceUriVariants('vtex://api-spec/Catalog%20API')).toEqual([
+      { kind: 'api-spec', group: 'Catalog API' },
+      { kind: 'api-spec', group: 'Catalog%20API' },
+    ])
+  })
+
+  it('reads API group URIs of the old encoding', () => {
+    expect(parseResourceUriVariants('vtex://api-spec/Catalog API')).toEqual([
+      { kind: 'api-spec', group: 'Catalog API' },
+    ])
+    expect(parseResourceUriVariants('vtex://api-spec/Gift/Card')).toEqual([
+      { kind: 'api-spec', group: 'Gift/Card' },
+    ])
+    expect(parseResourceUriVariants('vtex://api-spec/100%')).toEqual([
+      { kind: 'api-spec', group: '100%' },
+    ])
+  })
+
+  it('returns no reading for unsupported URIs', () => {
+    expect(parseResourceUriVariants('vtex://api-other/OMS')).toEqual([])
+    expect(parseResourceUriVariants('vtex://api-spec/')).toEqual([])
+  })
+})
@@ -0,0 +1,148 @@
+import type { OpenAPISchema } from '../../types/openapi'
+import { validateAgainstSchema } from '../schemaValidator'
+
+const order: OpenAPISchema = {
+  type: 'object',
+  required: ['orderId', 'items', 'createdAt'],
+  properties: {
+    orderId: { type: 'string', minLength: 3 },
+    createdAt: { type: 'string', format: 'date-time', readOnly: true },
+    status: { type: 'string', enum: ['ready', 'invoiced'] },
+    email: { type: 'string', format: 'email', nullable: true },
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['quantity'],
+        properties: {
+          quantity: { type: 'integer', minimum: 1, format: 'int32' },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+}
+
+describe('validateAgainstSchema', () => {
+  it('accepts valid values and skips read-only required properties', () => {
+    expect(
+      validateAgainstSchema(order, {
+        orderId: '1172452900788-01',
+        status: 'ready',
+        email: null,
+        items: [{ quantity: 2 }],
+      })
+    ).toEqual([])
+  })
+
+  it('reports the path of each invalid value', () => {
+    expect(
+      validateAgainstSchema(order, {
+        orderId: 'ab',
+        status: 'shipped',
+        email: 'not an email',
+        items: [{ quantity: 0 }, { quantity: 1.5, sku: '1' }, {}],
+      })
+    ).toEqual([
+      { path: '$.orderId', message: 'must have at least 3 characters' },
+      { path: '$.status', message: 'must be one of "ready", "invoiced"' },
+      { path: '$.email', message: 'must be a valid email' },
+      { path: '$.items[0].quantity', message: 'must be at least 1' },
+      {
+        path: '$.items[1].quantity',
+        message: 'must be integer, got number',
+      },
+      { path: '$.items[1].sku', message: 'is not an allowed property' },
+      { path: '$.items[2].quantity', message: 'is required' },
+    ])
+  })
+
+  it('reports missing properties and wrong types', () => {
+    expect(validateAgainstSchema(order, { items: [] })).toEqual([
+      { path: '$.orderId', message: 'is required' },
+      { path: '$.items', message: 'must have at least 1 items' },
+    ])
+    expect(validateAgainstSchema(order, [])).toEqual([
+      { path: '$', message: 'must be object, got array' },
+    ])
+    expect(
+      validateAgainstSchema(
+        { type: 'object', additionalProperties: { type: 'string' } },
+        { 'odd name': 1 }
+      )
+    ).toEqual([
+      { path: '$["odd name"]', message: 'must be string, got integer' },
+    ])
+  })
+
+  it('checks number bounds of OpenAPI 3.0 and 3.1', () => {
+    expect(
+      validateAgainstSchema(
+        { type: 'number', minimum: 0, exclusiveMinimum: true as any },
+        0
+      )
+    ).toEqual([{ path: '$', message: 'must be greater than 0' }])
+    expect(
+      validateAgainstSchema({ type: 'number', exclusiveMaximum: 10 as any }, 10)
+    ).toEqual([{ path: '$', message: 'must be less than 10' }])
+    expect(
+      validateAgainstSchema({ type: 'number', multipleOf: 0.01 }, 1.005)
+    ).toEqual([{ path: '$', message: 'must be a multiple of 0.01' }])
+    expect(
+      validateAgainstSchema({ type: 'integer', format: 'int32' }, 2 ** 31)
+    ).toEqual([{ path: '$', message: 'must be a valid int32' }])
+  })
+
+  it('reports the closest alternative of anyOf and oneOf', () => {
+    const schema: OpenAPISchema = {
+      oneOf: [
+        { type: 'object', required: ['sku', 'seller'] },
+        { type: 'object', properties: { id: { type: 'string' } } },
+      ],
+    }
+
+    expect(validateAgainstSchema(schema, { id: '1' })).toEqual([])
+    expect(validateAgainstSchema(schema, { id: 1 })).toEqual([
+      {
+        path: '$',
+        message: 'must match exactly one of the 2 allowed schemas',
+      },
+      { path: '$.id', message: 'must be string, got integer' },
+    ])
+    expect(
+      validateAgainstSchema(
+        { oneOf: [{ type: 'number' }, { type: 'integer' }] },
+        1
+      )
+    ).toEqual([
+      {
+        path: '$',
+        message: 'must match exactly one of the allowed schemas, but matches 2',
+      },
+    ])
+    expect(validateAgainstSchema({ not: { type: 'string' } }, 'text')).toEqual([
+      { path: '$', message: 'must not match the disallowed schema' },
+    ])
+  })
+
+  it('accepts null for OpenAPI 3.1 type lists', () => {
+    expect(
+      validateAgainstSchema({ type: ['string', 'null'] as any }, null)
+    ).toEqual([])
+    expect(validateAgainstSchema({ type: 'string' }, null)).toEqual([
+      { path: '$', message: 'must be string, got null' },
+    ])
+  })
+
+  it('reports at most 20 errors', () => {
+    const values = Array.from({ length: 30 }, () => 'text')
+
+    expect(
+      validateAgainstSchema(
+        { type: 'array', items: { type: 'integer' } },
+        values
+      )
+    ).toHaveLength(20)
+  })
+})
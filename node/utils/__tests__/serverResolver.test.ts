@@ -0,0 +1,180 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+import {
+  OUTBOUND_ACCESS_POLICIES,
+  isOutboundAccessAllowed,
+  isVTEXHost,
+  resolveServerURL,
+  selectServer,
+} from '../serverResolver'
+
+const DEFAULT_BASE_URL = 'https://acme.vtexcommercestable.com.br'
+const ACCOUNT_VARIABLES = { accountName: 'acme', account: 'acme' }
+
+describe('resolveServerURL', () => {
+  it('uses the account for accountName and the default of other variables', () => {
+    const url = resolveServerURL(
+      {
+        url: 'https://{accountName}.{environment}.com.br/api/catalog',
+        variables: {
+          accountName: { default: 'apiExample' },
+          environment: { default: 'vtexcommercestable' },
+        },
+      },
+      ACCOUNT_VARIABLES,
+      DEFAULT_BASE_URL
+    )
+
+    expect(url).toBe('https://acme.vtexcommercestable.com.br/api/catalog')
+  })
+
+  it('defaults undeclared environment variables to vtexcommercestable', () => {
+    const url = resolveServerURL(
+      { url: 'https://{accountName}.{environment}.com.br' },
+      ACCOUNT_VARIABLES,
+      DEFAULT_BASE_URL
+    )
+
+    expect(url).toBe('https://acme.vtexcommercestable.com.br')
+  })
+
+  it('keeps fixed hosts and drops trailing slashes', () => {
+    const url = resolveServerURL(
+      { url: 'https://fulfillment.vtexcommerce.com.br/' },
+      ACCOUNT_VARIABLES,
+      DEFAULT_BASE_URL
+    )
+
+    expect(url).toBe('https://fulfillment.vtexcommerce.com.br')
+  })
+
+  it('resolves relative server URLs against the default base URL', () => {
+    expect(
+      resolveServerURL({ url: '/api/oms' }, ACCOUNT_VARIABLES, DEFAULT_BASE_URL)
+    ).toBe('https://acme.vtexcommercestable.com.br/api/oms')
+  })
+
+  it('throws when a variable has no value', () => {
+    expect(() =>
+      resolveServerURL(
+        { url: 'https://{region}.example.com' },
+        ACCOUNT_VARIABLES,
+        DEFAULT_BASE_URL
+      )
+    ).toThrow("Server variable 'region' of 'https://{region}.example.com'")
+  })
+})
+
+describe('selectServer', () => {
+  const spec = {
+    openapi: '3.0.0',
+    info: { title: 'Test', version: '1' },
+    paths: {},
+    servers: [{ url: 'https://spec.vtex.com' }],
+  }
+
+  it('prefers the operation servers, then the path item ones', () => {
+    expect(
+      selectServer(
+        spec,
+        {
+          operationId: 'getOrder',
+          responses: {},
+          servers: [{ url: 'https://operation.vtex.com' }],
+        },
+        { servers: [{ url: 'https://path.vtex.com' }] }
+      )?.url
+    ).toBe('https://operation.vtex.com')
+
+    expect(
+      selectServer(
+        spec,
+        { operationId: 'getOrder', responses: {} },
+        { servers: [{ url: 'https://path.vtex.com' }] }
+      )?.url
+    ).toBe('https://path.vtex.com')
+  })
+
+  it('falls back to the spec servers, or none', () => {
+    expect(selectServer(spec)?.url).toBe('https://spec.vtex.com')
+    expect(selectServer({ ...spec, servers: undefined })).toBeUndefined()
+  })
+})
+
+describe('isOutboundAccessAllowed', () => {
+  it('allows the hosts and paths of the policies', () => {
+    expect(isOutboundAccessAllowed('acme.myvtex.com', '/_v/x', 'acme')).toBe(
+      true
+    )
+    expect(
+      isOutboundAccessAllowed(
+        'fulfillment.vtexcommerce.com.br',
+        '/api/fulfillment/pvt/orders',
+        'acme'
+      )
+    ).toBe(true)
+    expect(
+      isOutboundAccessAllowed(
+        'ACME.VTEXCOMMERCESTABLE.COM.BR',
+        '/api/oms',
+        'acme'
+      )
+    ).toBe(true)
+    expect(isOutboundAccessAllowed('specs.example.com', '/api/x', 'acme')).toBe(
+      true
+    )
+  })
+
+  it('refuses other accounts, paths and hosts', () => {
+    expect(isOutboundAccessAllowed('other.myvtex.com', '/_v/x', 'acme')).toBe(
+      false
+    )
+    expect(isOutboundAccessAllowed('api.vtex.com', '/oms', 'acme')).toBe(false)
+    expect(isOutboundAccessAllowed('example.com', '/x', 'acme')).toBe(false)
+  })
+
+  it('resolves dot segments before matching the path', () => {
+    expect(isOutboundAccessAllowed('example.com', '/api/../x', 'acme')).toBe(
+      false
+    )
+    expect(
+      isOutboundAccessAllowed('example.com', '/api/%2e%2e/admin', 'acme')
+    ).toBe(false)
+    expect(
+      isOutboundAccessAllowed('acme.myvtex.com', '/_v/../_v/x', 'acme')
+    ).toBe(true)
+  })
+
+  it('matches the outbound-access policies of manifest.json', () => {
+    const manifest: {
+      policies: Array<{ name: string; attrs?: { host: string; path: string } }>
+    } = JSON.parse(
+      readFileSync(join(__dirname, '../../../manifest.json'), 'utf8')
+    )
+
+    const policies = manifest.policies
+      .filter((policy) => policy.name === 'outbound-access')
+      .map((policy) => ({
+        host: policy.attrs?.host,
+        path: policy.attrs?.path,
+      }))
+
+    expect(OUTBOUND_ACCESS_POLICIES).toEqual(policies)
+  })
+})
+
+describe('isVTEXHost', () => {
+  it('accepts VTEX domains and their subdomains', () => {
+    expect(isVTEXHost('acme.vtexcommercestable.com.br')).toBe(true)
+    expect(isVTEXHost('fulfillment.vtexcommerce.com.br')).toBe(true)
+    expect(isVTEXHost('acme.myvtex.com')).toBe(true)
+    expect(isVTEXHost('API.VTEX.COM')).toBe(true)
+  })
+
+  it('refuses other hosts, including lookalikes', () => {
+    expect(isVTEXHost('example.com')).toBe(false)
+    expect(isVTEXHost('evilvtex.com')).toBe(false)
+    expect(isVTEXHost('vtex.com.example.com')).toBe(false)
+  })
+})
@@ -0,0 +1,41 @@
+import { detectSpecFormat, parseSpecDocument } from '../specParser'
+
+describe('detectSpecFormat', () => {
+  it('prefers the content type and falls back to the first character', () => {
+    expect(detectSpecFormat('{}', 'application/x-yaml')).toBe('yaml')
+    expect(detectSpecFormat('openapi: 3.0.0', 'application/json')).toBe('json')
+    expect(detectSpecFormat('  [1]', 'text/plain')).toBe('json')
+    expect(detectSpecFormat('openapi: 3.0.0')).toBe('yaml')
+  })
+})
+
+describe('parseSpecDocument', () => {
+  it('parses JSON and YAML documents', () => {
+    expect(parseSpecDocument('\uFEFF{"openapi": "3.0.0"}')).toEqual({
+      openapi: '3.0.0',
+    })
+    expect(
+      parseSpecDocument(
+        Buffer.from('openapi: 3.0.0\ninfo:\n  version: 2024-01-01\n')
+      )
+    ).toEqual({ openapi: '3.0.0', info: { version: '2024-01-01' } })
+  })
+
+  it('returns documents the HTTP client already parsed', () => {
+    const document = { openapi: '3.0.0' }
+
+    expect(parseSpecDocument(document)).toBe(document)
+  })
+
+  it('reports the line and column of malformed documents', () => {
+    expect(() => parseSpecDocument('{\n  "openapi": 3.0.0,\n}')).toThrow(
+      /^Invalid JSON specification at line 2, column 17/
+    )
+    expect(() =>
+      parseSpecDocument('openapi: 3.0.0\ninfo:\n  title: [unclosed\n')
+    ).toThrow(/^Invalid YAML specification at line \d+, column \d+/)
+    expect(() => parseSpecDocument('  \n')).toThrow(
+      'Invalid specification: the document is empty'
+    )
+  })
+})
@@ -0,0 +1,244 @@
+import type { Swagger2Spec } from '../../types/openapi'
+import { convertSwagger2ToOpenAPI, isSwagger2Spec } from '../swaggerConverter'
+
+const swagger: Swagger2Spec = {
+  swagger: '2.0',
+  info: { title: 'Orders', version: 1.0 as any },
+  host: 'acme.vtexcommercestable.com.br',
+  basePath: '/api/oms',
+  schemes: ['https', 'http'],
+  consumes: ['application/json', 'application/xml'],
+  paths: {
+    '/orders/{orderId}': {
+      parameters: [
+        { name: 'orderId', in: 'path', type: 'string' },
+        { $ref: '#/parameters/OrderBody' },
+      ],
+      get: {
+        operationId: 'GetOrder',
+        produces: ['application/json'],
+        parameters: [
+          {
+            name: 'fields',
+            in: 'query',
+            type: 'array',
+            items: { type: 'string' },
+            collectionFormat: 'multi',
+          },
+          {
+            name: 'tags',
+            in: 'query',
+            type: 'array',
+            collectionFormat: 'pipes',
+          },
+          { $ref: '#/parameters/Account' },
+        ],
+        responses: {
+          '200': {
+            description: 'The order',
+            schema: { $ref: '#/definitions/Order' },
+          },
+          '404': { $ref: '#/responses/NotFound' },
+        },
+      },
+      put: {
+        operationId: 'UpdateOrder',
+        responses: { '204': { description: 'Updated' } },
+      },
+    },
+    '/orders/{orderId}/invoice': {
+      post: {
+        operationId: 'SendInvoice',
+        consumes: ['application/json', 'multipart/form-data'],
+        parameters: [
+          { name: 'orderId', in: 'path', type: 'string' },
+          {
+            name: 'file',
+            in: 'formData',
+            type: 'file',
+            required: true,
+            description: 'The invoice',
+          },
+          { name: 'number', in: 'formData', type: 'string' },
+        ],
+        responses: { '200': { description: 'Sent' } },
+      },
+    },
+  },
+  definitions: {
+    Order: {
+      type: 'object',
+      discriminator: 'kind',
+      properties: {
+        type: { type: 'string', 'x-nullable': true },
+        items: { type: 'array', items: { $ref: '#/definitions/Item' } },
+      },
+    },
+    Item: { type: 'object' },
+  },
+  parameters: {
+    Account: { name: 'an', in: 'query', type: 'string', required: true },
+    OrderBody: {
+      name: 'body',
+      in: 'body',
+      required: true,
+      schema: { $ref: '#/definitions/Order' },
+    },
+  },
+  responses: { NotFound: { description: 'Not found' } },
+  securityDefinitions: {
+    basic: { type: 'basic' },
+    oauth: {
+      type: 'oauth2',
+      flow: 'accessCode',
+      authorizationUrl: 'https://example.com/authorize',
+      tokenUrl: 'https://example.com/token',
+      scopes: { read: 'Read' },
+    },
+  },
+}
+
+describe('isSwagger2Spec', () => {
+  it('recognizes Swagger 2.0 documents only', () => {
+    expect(isSwagger2Spec(swagger)).toBe(true)
+    expect(isSwagger2Spec({ swagger: 2 })).toBe(true)
+    expect(isSwagger2Spec({ openapi: '3.0.0' })).toBe(false)
+    expect(isSwagger2Spec(null)).toBe(false)
+  })
+})
+
+describe('convertSwagger2ToOpenAPI', () => {
+  const spec = convertSwagger2ToOpenAPI(swagger)
+  const orderPath = spec.paths['/orders/{orderId}']
+
+  it('builds servers from the host, base path and schemes', () => {
+    expect(spec.openapi).toBe('3.0.3')
+    expect(spec.info.version).toBe('1')
+    expect(spec.servers).toEqual([
+      { url: 'https://acme.vtexcommercestable.com.br/api/oms' },
+      { url: 'http://acme.vtexcommercestable.com.br/api/oms' },
+    ])
+    expect(
+      convertSwagger2ToOpenAPI({ ...swagger, host: undefined }).servers
+    ).toEqual([{ url: '/api/oms' }])
+  })
+
+  it('moves definitions to components and rewrites their references', () => {
+    expect(spec.components?.schemas?.Order).toEqual({
+      type: 'object',
+      discriminator: { propertyName: 'kind' },
+      properties: {
+        type: { type: 'string', nullable: true },
+        items: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/Item' },
+        },
+      },
+    })
+    expect(orderPath.get?.responses).toEqual({
+      '200': {
+        description: 'The order',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Order' },
+          },
+        },
+      },
+      '404': { $ref: '#/components/responses/NotFound' },
+    })
+  })
+
+  it('maps parameters with their collection format', () => {
+    expect(orderPath.parameters).toEqual([
+      {
+        name: 'orderId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      },
+    ])
+    expect(orderPath.get?.parameters).toEqual([
+      {
+        name: 'fields',
+        in: 'query',
+        schema: { type: 'array', items: { type: 'string' } },
+        style: 'form',
+        explode: true,
+      },
+      {
+        name: 'tags',
+        in: 'query',
+        schema: { type: 'array' },
+        style: 'pipeDelimited',
+        explode: false,
+      },
+      { $ref: '#/components/parameters/Account' },
+    ])
+    expect(spec.components?.parameters?.Account).toEqual({
+      name: 'an',
+      in: 'query',
+      required: true,
+      schema: { type: 'string' },
+      style: 'form',
+      explode: false,
+    })
+  })
+
+  it('turns reusable body parameters into request bodies', () => {
+    expect(spec.components?.requestBodies?.OrderBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/Order' },
+        },
+        'application/xml': {
+          schema: { $ref: '#/components/schemas/Order' },
+        },
+      },
+    })
+    expect(orderPath.put?.requestBody).toEqual({
+      $ref: '#/components/requestBodies/OrderBody',
+    })
+  })
+
+  it('turns formData parameters into a form request body', () => {
+    const invoice = spec.paths['/orders/{orderId}/invoice'].post
+
+    expect(invoice?.parameters).toHaveLength(1)
+    expect(invoice?.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                format: 'binary',
+                description: 'The invoice',
+              },
+              number: { type: 'string' },
+            },
+            required: ['file'],
+          },
+        },
+      },
+    })
+  })
+
+  it('converts basic and OAuth 2 security definitions', () => {
+    expect(spec.components?.securitySchemes).toEqual({
+      basic: { type: 'http', scheme: 'basic' },
+      oauth: {
+        type: 'oauth2',
+        flows: {
+          authorizationCode: {
+            authorizationUrl: 'https://example.com/authorize',
+            tokenUrl: 'https://example.com/token',
+            scopes: { read: 'Read' },
+          },
+        },
+      },
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { deriveToolAnnotations } from '../toolAnnotations'
+
+describe('deriveToolAnnotations', () => {
+  it('marks reads as read-only and idempotent', () => {
+    expect(
+      deriveToolAnnotations({
+        method: 'get',
+        path: '/api/oms/pvt/orders/{orderId}',
+        operation: { operationId: 'GetOrder', summary: ' Get order ' },
+      })
+    ).toEqual({
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      title: 'Get order',
+    })
+  })
+
+  it('marks DELETEs and cancel, remove or refund writes as destructive', () => {
+    const isDestructive = (method: string, path: string, operationId = '') =>
+      deriveToolAnnotations({ method, path, operation: { operationId } })
+        .destructiveHint
+
+    expect(
+      isDestructive('DELETE', '/api/catalog/pvt/stockkeepingunit/{id}')
+    ).toBe(true)
+    expect(isDestructive('POST', '/api/oms/pvt/orders/{orderId}/cancel')).toBe(
+      true
+    )
+    expect(isDestructive('POST', '/api/orders', 'CancelOrder')).toBe(true)
+    expect(isDestructive('POST', '/api/orders', 'SKURemoveItems')).toBe(true)
+    expect(isDestructive('POST', '/api/payments/{id}/refunds')).toBe(true)
+    expect(isDestructive('PUT', '/api/orders', 'void_transaction')).toBe(true)
+  })
+
+  it('ignores destructive words inside other words', () => {
+    const isDestructive = (path: string, operationId: string) =>
+      deriveToolAnnotations({
+        method: 'POST',
+        path,
+        operation: { operationId },
+      }).destructiveHint
+
+    expect(isDestructive('/api/avoidance', 'CreateAvoidanceRule')).toBe(false)
+    expect(isDestructive('/api/items', 'SetUnremovableFlag')).toBe(false)
+    expect(isDestructive('/api/voided-policies', 'Voidable')).toBe(false)
+  })
+
+  it('lets valid overrides replace the derived values', () => {
+    expect(
+      deriveToolAnnotations({
+        method: 'POST',
+        path: '/api/orders/{orderId}/cancel',
+        operation: { operationId: 'CancelOrder' },
+        overrides: {
+          destructiveHint: false,
+          openWorldHint: true,
+          title: '  ',
+          idempotentHint: 'yes' as any,
+        },
+      })
+    ).toEqual({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    })
+  })
+})
@@ -1,11 +1,30 @@
 import type {
+  IndexedOperation,
+  OpenAPIMediaType,
+  OpenAPISchema,
   OpenAPISpec,
   OpenAPIOperation,
   OpenAPIParameter,
-  OpenAPIReference,
+  OpenAPIServer,
   ResolvedParameters,
 } from '../types/openapi'
 import type { VTEXAPIClient } from '../clients/VTEXAPIClient'
+import {
+  getIndexedOperation,
+  getIndexedPathItem,
+  getOperationIndex,
+} from './operationIndex'
+import {
+  coerceParameterValue,
+  serializeHeaderParameter,
+  serializePathParameter,
+  serializeQuery,
+  serializeQueryParameter,
+} from './parameterSerializer'
+import { resolveRequestBody } from './refResolver'
+import { selectServer } from './serverResolver'
+import type { SchemaValidationError } from './schemaValidator'
+import { validateAgainstSchema } from './schemaValidator'
 
 export interface APIExecutionContext {
   apiGroup: string
@@ -25,10 +44,89 @@ export interface ExecuteAPIOptions {
   path?: string
   pathParams?: Record<string, any>
   queryParams?: Record<string, any>
-  headers?: Record<string, string>
+  headers?: Record<string, any>
   body?: any
+  /** Outbound request timeout in milliseconds (client default when omitted) */
+  timeout?: number
+  /** Aborts the outbound request */
+  signal?: AbortSignal
+  /** Called as the execution advances, with progress out of PROGRESS_TOTAL */
+  onProgress?: (progress: number, message: string) => void
+  /** Skips the validation of the body against the operation schema */
+  skipBodyValidation?: boolean
 }
 
+/**
+ * What was sent to the VTEX API, reported back when the request fails
+ */
+export interface APIRequestSummary {
+  method: string
+  path: string
+  query?: Record<string, any>
+  body?: any
+}
+
+/**
+ * Thrown when the VTEX API request fails, either with an error response or
+ * without any (timeouts, network errors). status and data come from the
+ * upstream response when there is one.
+ */
+export interface APIRequestFailure {
+  error: string
+  upstream: {
+    status?: number
+    statusText?: string
+    data?: any
+  }
+  request: APIRequestSummary
+  metadata: {
+    executionTime: number
+    apiGroup: string
+    operationId?: string
+  }
+}
+
+/**
+ * Checks if an error thrown by executeOperation is a failure of the VTEX API
+ * request, as opposed to a request that couldn't be built from the spec
+ */
+export function isAPIRequestFailure(error: any): error is APIRequestFailure {
+  return !!error?.upstream && !!error?.request
+}
+
+/**
+ * Thrown when the request body doesn't match the schema of the operation,
+ * before anything is sent to the VTEX API
+ */
+export interface RequestBodyValidationFailure {
+  error: string
+  validationErrors: SchemaValidationError[]
+  request: APIRequestSummary & { contentType: string }
+  metadata: {
+    apiGroup: string
+    operationId?: string
+  }
+}
+
+/**
+ * Checks if an error thrown by executeOperation is a request body that
+ * doesn't match the operation schema
+ */
+export function isRequestBodyValidationFailure(
+  error: any
+): error is RequestBodyValidationFailure {
+  return Array.isArray(error?.validationErrors) && !!error?.request
+}
+
+// Progress is reported as a percentage
+export const PROGRESS_TOTAL = 100
+
+// How often progress is reported while waiting for the VTEX API
+const PROGRESS_INTERVAL_MS = 5 * 1000
+
+// Timeout assumed for progress reporting when none is given
+const DEFAULT_TIMEOUT_MS = 10 * 1000
+
 export class APIExecutor {
   constructor(private vtexApiClient: VTEXAPIClient) {}
 
@@ -41,61 +139,48 @@ export class APIExecutor {
   ): Promise<{ data: any; metadata: any }> {
     const startTime = Date.now()
 
-    try {
-      // Resolve operation context either by operationId or by method+path
-      let operation: OpenAPIOperation | null = null
-      let resolvedMethod: string
-      let resolvedPath: string
-
-      if (options.operationId) {
-        operation = this.findOperation(spec, options.operationId)
-
-        if (!operation) {
-          throw new Error(
-            `Operation '${options.operationId}' not found in API specification`
-          )
-        }
-
-        const mp = this.getMethodAndPath(spec, options.operationId)
-
-        resolvedMethod = mp.method
-        resolvedPath = mp.path
-      } else if (options.method && options.path) {
-        const mp = this.findOperationByPathAndMethod(
-          spec,
-          options.method,
-          options.path
-        )
+    // Set once the request is built, so failures after it are upstream ones
+    let requestSummary: APIRequestSummary | undefined
 
-        operation = mp.operation
-        resolvedMethod = mp.method
-        resolvedPath = mp.path
-      } else {
-        throw new Error('You must provide either operationId or method+path')
-      }
-
-      // Resolve parameters (path, query, headers)
-      const resolvedParams = this.resolveParameters(
-        operation.parameters || [],
-        options.pathParams || {},
-        options.queryParams || {},
-        options.headers || {}
-      )
+    try {
+      const {
+        method: resolvedMethod,
+        path: finalPath,
+        headers,
+        queryParams,
+        queryString,
+        server,
+      } = this.resolveRequest(spec, options)
 
-      // Build the final path with resolved path parameters
-      const finalPath = this.buildPath(resolvedPath, resolvedParams.pathParams)
+      // Malformed bodies are reported before reaching the VTEX API
+      this.assertValidBody(spec, options)
 
       // Prepare request configuration
       const requestConfig = {
         method: resolvedMethod as any,
         path: finalPath,
-        headers: resolvedParams.headers,
-        query: resolvedParams.queryParams,
+        headers,
+        query: queryString,
         body: options.body,
+        timeout: options.timeout,
+        signal: options.signal,
+        server,
+      }
+
+      requestSummary = {
+        method: resolvedMethod,
+        path: finalPath,
+        ...(Object.keys(queryParams).length > 0 ? { query: queryParams } : {}),
+        ...(options.body !== undefined ? { body: options.body } : {}),
       }
 
-      // Execute the request
-      const response = await this.vtexApiClient.executeRequest(requestConfig)
+      // Execute the request, reporting progress while waiting for it
+      const response = await this.withProgress(
+        () => this.vtexApiClient.executeRequest(requestConfig),
+        `${resolvedMethod} ${finalPath}`,
+        options
+      )
+
       const executionTime = Date.now() - startTime
 
       // Extract response data and headers
@@ -119,93 +204,207 @@ export class APIExecutor {
         },
       }
     } catch (error) {
+      if (isRequestBodyValidationFailure(error)) {
+        throw error
+      }
+
       const executionTime = Date.now() - startTime
+      const metadata = {
+        executionTime,
+        apiGroup: options.apiGroup,
+        operationId: options.operationId,
+      }
+
+      if (requestSummary) {
+        const failure: APIRequestFailure = {
+          error: error.message || 'Unknown error',
+          upstream: {
+            status: error.response?.status,
+            statusText: error.response?.statusText,
+            data: error.response?.data,
+          },
+          request: requestSummary,
+          metadata,
+        }
+
+        throw failure
+      }
 
       throw {
         error: error.message || 'Unknown error',
+        metadata,
+      }
+    }
+  }
+
+  /**
+   * Validate the body of a request against the schema of its operation,
+   * unless skipBodyValidation is set
+   * @throws RequestBodyValidationFailure when the body doesn't match
+   */
+  public assertValidBody(spec: OpenAPISpec, options: ExecuteAPIOptions): void {
+    if (options.skipBodyValidation) {
+      return
+    }
+
+    const { operation, method, path, headers } = this.resolveRequest(
+      spec,
+      options
+    )
+
+    const contentType = getContentType(headers)
+    const validationErrors = this.validateRequestBody(
+      spec,
+      operation,
+      options.body,
+      contentType
+    )
+
+    if (validationErrors.length > 0) {
+      const failure: RequestBodyValidationFailure = {
+        error: 'The request body does not match the schema of the operation',
+        validationErrors,
+        request: { method, path, contentType },
         metadata: {
-          executionTime,
           apiGroup: options.apiGroup,
           operationId: options.operationId,
         },
       }
+
+      throw failure
     }
   }
 
   /**
-   * Find an operation by operationId in the OpenAPI spec
+   * Resolve the operation of a request and the final method, path, headers
+   * and query parameters it would be sent with, without executing it.
+   * operationPath is the OpenAPI path template of the operation, and
+   * queryString the query parameters serialized as the spec describes.
+   * server is the server of the operation, path item or spec, in that order.
    */
-  private findOperation(
+  public resolveRequest(
     spec: OpenAPISpec,
-    operationId: string
-  ): OpenAPIOperation | null {
-    const targetId = operationId.toLowerCase()
-
-    for (const [, pathItem] of Object.entries(spec.paths)) {
-      const methods = [
-        'get',
-        'post',
-        'put',
-        'patch',
-        'delete',
-        'head',
-        'options',
-      ]
-
-      for (const method of methods) {
-        const operation = pathItem[
-          method as keyof typeof pathItem
-        ] as OpenAPIOperation
+    options: ExecuteAPIOptions
+  ): {
+    operation: OpenAPIOperation
+    method: string
+    path: string
+    operationPath: string
+    headers: Record<string, string>
+    queryParams: Record<string, any>
+    queryString: string
+    server?: OpenAPIServer
+  } {
+    // Resolve operation context either by operationId or by method+path,
+    // through the operation index of the spec
+    let entry: IndexedOperation
+
+    if (options.operationId) {
+      entry = this.findOperation(spec, options.operationId)
+    } else if (options.method && options.path) {
+      entry = this.findOperationByPathAndMethod(
+        spec,
+        options.method,
+        options.path
+      )
+    } else {
+      throw new Error('You must provide either operationId or method+path')
+    }
 
-        if (
-          operation &&
-          operation.operationId &&
-          operation.operationId.toLowerCase() === targetId
-        ) {
-          return operation
-        }
-      }
+    const operation = getIndexedOperation(spec, entry) as OpenAPIOperation
+    const resolvedMethod = entry.method
+    const resolvedPath = entry.path
+
+    // Resolve parameters (path, query, headers), including referenced and
+    // path-level ones
+    const resolvedParams = this.resolveParameters(
+      entry.parameters,
+      options.pathParams || {},
+      options.queryParams || {},
+      options.headers || {}
+    )
+
+    // Build the final path with resolved path parameters
+    const finalPath = this.buildPath(resolvedPath, resolvedParams.pathParams)
+
+    return {
+      operation,
+      method: resolvedMethod,
+      path: finalPath,
+      operationPath: resolvedPath,
+      headers: resolvedParams.headers,
+      queryParams: resolvedParams.queryParams,
+      queryString: resolvedParams.queryString,
+      server: selectServer(spec, operation, getIndexedPathItem(spec, entry)),
+    }
+  }
+
+  /**
+   * Runs the outbound request and reports progress through onProgress: when
+   * the request is sent, periodically while waiting, and when it completes.
+   * Waiting progress grows with the elapsed share of the timeout.
+   */
+  private async withProgress<T>(
+    request: () => Promise<T>,
+    description: string,
+    options: ExecuteAPIOptions
+  ): Promise<T> {
+    const { onProgress } = options
+
+    if (!onProgress) {
+      return request()
     }
 
-    return null
+    const startTime = Date.now()
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS
+    let lastProgress = 10
+
+    onProgress(lastProgress, `Calling ${description}`)
+
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startTime
+      const progress = Math.min(
+        10 + Math.floor((80 * elapsed) / timeout),
+        PROGRESS_TOTAL - 1
+      )
+
+      // Progress must increase with every notification
+      if (progress > lastProgress) {
+        lastProgress = progress
+        onProgress(
+          progress,
+          `Waiting for ${description} (${Math.round(elapsed / 1000)}s)`
+        )
+      }
+    }, PROGRESS_INTERVAL_MS)
+
+    try {
+      const response = await request()
+
+      onProgress(PROGRESS_TOTAL, `Received response from ${description}`)
+
+      return response
+    } finally {
+      clearInterval(interval)
+    }
   }
 
   /**
-   * Get the HTTP method and path for an operation
+   * Find an operation by operationId in the OpenAPI spec
    */
-  private getMethodAndPath(
+  private findOperation(
     spec: OpenAPISpec,
     operationId: string
-  ): { method: string; path: string } {
-    const targetId = operationId.toLowerCase()
-
-    for (const [path, pathItem] of Object.entries(spec.paths)) {
-      const methods = [
-        'get',
-        'post',
-        'put',
-        'patch',
-        'delete',
-        'head',
-        'options',
-      ]
-
-      for (const method of methods) {
-        const operation = pathItem[
-          method as keyof typeof pathItem
-        ] as OpenAPIOperation
+  ): IndexedOperation {
+    const entry = getOperationIndex(spec).findById(operationId)
 
-        if (
-          operation &&
-          operation.operationId &&
-          operation.operationId.toLowerCase() === targetId
-        ) {
-          return { method: method.toUpperCase(), path }
-        }
-      }
+    if (!entry) {
+      throw new Error(
+        `Operation '${operationId}' not found in API specification`
+      )
     }
 
-    throw new Error(`Operation '${operationId}' not found in API specification`)
+    return entry
   }
 
   /**
@@ -215,44 +414,50 @@ export class APIExecutor {
     spec: OpenAPISpec,
     method: string,
     path: string
-  ): { operation: OpenAPIOperation; method: string; path: string } {
-    const normalizedMethod = method.toLowerCase()
-    const pathItem = (spec.paths as any)[path]
-
-    if (!pathItem) {
+  ): IndexedOperation {
+    if (!spec.paths?.[path]) {
       throw new Error(`Path '${path}' not found in API specification`)
     }
 
-    const operation = pathItem[normalizedMethod] as OpenAPIOperation | undefined
+    const entry = getOperationIndex(spec).findByMethodAndPath(method, path)
 
-    if (!operation) {
+    if (!entry) {
       throw new Error(
         `Method '${method.toUpperCase()}' not available for path '${path}'`
       )
     }
 
-    return { operation, method: method.toUpperCase(), path }
+    return entry
   }
 
   /**
-   * Resolve parameters from OpenAPI spec and provided values
+   * Resolve parameters from OpenAPI spec and provided values. Values are
+   * coerced to the types of the parameter schemas and serialized by the
+   * style and explode of each parameter; path parameters come out encoded,
+   * ready to replace their placeholders.
    */
   private resolveParameters(
-    specParameters: Array<OpenAPIParameter | OpenAPIReference>,
+    specParameters: OpenAPIParameter[],
     pathParams: Record<string, any>,
     queryParams: Record<string, any>,
-    headers: Record<string, string>
+    headers: Record<string, any>
   ): ResolvedParameters {
-    const resolvedPathParams: Record<string, any> = {}
+    const resolvedPathParams: Record<string, string> = {}
     const resolvedQueryParams: Record<string, any> = {}
-    const resolvedHeaders: Record<string, string> = { ...headers }
+    const resolvedHeaders: Record<string, string> = {}
+    const queryPairs: string[] = []
 
-    for (const param of specParameters) {
-      // Skip reference parameters for now - in a full implementation, you'd resolve them
-      if ('$ref' in param) {
-        continue
-      }
+    // Query parameters not defined in the spec, sent as form style ones
+    const additionalQueryParams = { ...queryParams }
 
+    for (const [name, value] of Object.entries(headers)) {
+      resolvedHeaders[name] = serializeHeaderParameter(
+        { name, in: 'header' },
+        value
+      )
+    }
+
+    for (const param of specParameters) {
       const value = this.getParameterValue(
         param,
         pathParams,
@@ -261,17 +466,27 @@ export class APIExecutor {
       )
 
       if (value !== undefined) {
+        const coerced = coerceParameterValue(param, value)
+
         switch (param.in) {
           case 'path':
-            resolvedPathParams[param.name] = value
+            resolvedPathParams[param.name] = serializePathParameter(
+              param,
+              coerced
+            )
             break
 
           case 'query':
-            resolvedQueryParams[param.name] = value
+            resolvedQueryParams[param.name] = coerced
+            queryPairs.push(...serializeQueryParameter(param, coerced))
+            delete additionalQueryParams[param.name]
             break
 
           case 'header':
-            resolvedHeaders[param.name] = String(value)
+            resolvedHeaders[param.name] = serializeHeaderParameter(
+              param,
+              coerced
+            )
             break
 
           default:
@@ -280,9 +495,12 @@ export class APIExecutor {
         }
       } else if (param.required) {
         // Skip validation for mandatory headers that are automatically added by VTEXAPIClient
-        const mandatoryHeaders = ['Accept', 'Content-Type']
+        const mandatoryHeaders = ['accept', 'content-type']
 
-        if (param.in === 'header' && mandatoryHeaders.includes(param.name)) {
+        if (
+          param.in === 'header' &&
+          mandatoryHeaders.includes(param.name.toLowerCase())
+        ) {
           continue
         }
 
@@ -293,11 +511,13 @@ export class APIExecutor {
     }
 
     // Add any additional query parameters not defined in the spec
-    Object.assign(resolvedQueryParams, queryParams)
+    Object.assign(resolvedQueryParams, additionalQueryParams)
+    queryPairs.push(serializeQuery(additionalQueryParams))
 
     return {
       pathParams: resolvedPathParams,
       queryParams: resolvedQueryParams,
+      queryString: queryPairs.filter(Boolean).join('&'),
       headers: resolvedHeaders,
     }
   }
@@ -309,7 +529,7 @@ export class APIExecutor {
     param: OpenAPIParameter,
     pathParams: Record<string, any>,
     queryParams: Record<string, any>,
-    headers: Record<string, string>
+    headers: Record<string, any>
   ): any {
     switch (param.in) {
       case 'path':
@@ -327,19 +547,17 @@ export class APIExecutor {
   }
 
   /**
-   * Build the final path by replacing path parameters
+   * Build the final path by replacing path parameters with their serialized
+   * values
    */
-  private buildPath(path: string, pathParams: Record<string, any>): string {
+  private buildPath(path: string, pathParams: Record<string, string>): string {
     let finalPath = path
 
     for (const [key, value] of Object.entries(pathParams)) {
       const placeholder = `{${key}}`
 
       if (finalPath.includes(placeholder)) {
-        finalPath = finalPath.replace(
-          placeholder,
-          encodeURIComponent(String(value))
-        )
+        finalPath = finalPath.replace(placeholder, value)
       }
     }
 
@@ -356,42 +574,67 @@ export class APIExecutor {
   }
 
   /**
-   * Validate request body against OpenAPI spec (basic validation)
+   * Validate a request body against the schema the operation declares for
+   * the content type it is sent with. Content types the operation doesn't
+   * declare are not validated.
+   * @param spec - The OpenAPI specification of the operation
+   * @param operation - The OpenAPI operation object
+   * @param body - The request body
+   * @param contentType - The Content-Type the body is sent with
+   * @returns The validation errors, empty if the body is valid
    */
-  public validateRequestBody(operation: OpenAPIOperation, body: any): boolean {
-    if (!operation.requestBody) {
-      return body === undefined || body === null
+  public validateRequestBody(
+    spec: OpenAPISpec,
+    operation: OpenAPIOperation,
+    body: any,
+    contentType = 'application/json'
+  ): SchemaValidationError[] {
+    const requestBody = resolveRequestBody(spec, operation)
+
+    if (body === undefined || body === null) {
+      return requestBody?.required
+        ? [
+            {
+              path: '$',
+              message: 'Request body is required for this operation',
+            },
+          ]
+        : []
     }
 
-    // Skip validation for reference request bodies
-    if ('$ref' in operation.requestBody) {
-      return true
+    const mediaType = requestBody
+      ? findMediaType(requestBody.content, contentType)
+      : undefined
+
+    if (!mediaType?.schema) {
+      return []
     }
 
-    if (
-      operation.requestBody.required &&
-      (body === undefined || body === null)
-    ) {
-      throw new Error('Request body is required for this operation')
+    // JSON bodies given as text are checked as the JSON they carry
+    let value = body
+
+    if (typeof body === 'string' && contentType.includes('json')) {
+      try {
+        value = JSON.parse(body)
+      } catch (_) {
+        return [{ path: '$', message: 'must be valid JSON' }]
+      }
     }
 
-    // Basic validation - in a real implementation, you'd want more sophisticated validation
-    return true
+    return validateAgainstSchema(mediaType.schema as OpenAPISchema, value)
   }
 
   /**
    * Get operation summary for debugging/logging
    */
   public getOperationSummary(spec: OpenAPISpec, operationId: string): string {
-    const operation = this.findOperation(spec, operationId)
+    const entry = getOperationIndex(spec).findById(operationId)
 
-    if (!operation) {
+    if (!entry) {
       return `Operation '${operationId}' not found`
     }
 
-    const { method, path } = this.getMethodAndPath(spec, operationId)
-
-    return `${method} ${path} - ${operation.summary || operationId}`
+    return `${entry.method} ${entry.path} - ${entry.summary || operationId}`
   }
 
   /**
@@ -403,40 +646,48 @@ export class APIExecutor {
     path: string
     summary?: string
   }> {
-    const operations: Array<{
-      operationId: string
-      method: string
-      path: string
-      summary?: string
-    }> = []
-
-    for (const [path, pathItem] of Object.entries(spec.paths)) {
-      const methods = [
-        'get',
-        'post',
-        'put',
-        'patch',
-        'delete',
-        'head',
-        'options',
-      ]
-
-      for (const method of methods) {
-        const operation = pathItem[
-          method as keyof typeof pathItem
-        ] as OpenAPIOperation
-
-        if (operation && operation.operationId) {
-          operations.push({
-            operationId: operation.operationId,
-            method: method.toUpperCase(),
-            path,
-            summary: operation.summary,
-          })
-        }
-      }
-    }
-
-    return operations
+    return getOperationIndex(spec)
+      .operations.filter((entry) => entry.operationId)
+      .map((entry) => ({
+        operationId: entry.operationId as string,
+        method: entry.method,
+        path: entry.path,
+        summary: entry.summary,
+      }))
   }
 }
+
+/**
+ * The Content-Type of a request, from its headers (any case), or JSON, which
+ * is what VTEXAPIClient sends by default
+ */
+function getContentType(headers: Record<string, string>): string {
+  const name = Object.keys(headers).find(
+    (header) => header.toLowerCase() === 'content-type'
+  )
+
+  return (name && headers[name]) || 'application/json'
+}
+
+/**
+ * Finds the media type of a content map matching a content type: the exact
+ * type, then its wildcard range (e.g. application/*), then the any-type
+ * range. Parameters such as charset are ignored.
+ */
+function findMediaType(
+  content: Record<string, OpenAPIMediaType>,
+  contentType: string
+): OpenAPIMediaType | undefined {
+  const normalize = (type: string) => type.split(';')[0].trim().toLowerCase()
+  const target = normalize(contentType)
+  const entries = Object.entries(content ?? {}).map(
+    ([type, mediaType]) => [normalize(type), mediaType] as const
+  )
+
+  const match =
+    entries.find(([type]) => type === target) ??
+    entries.find(([type]) => type === `${target.split('/')[0]}/*`) ??
+    entries.find(([type]) => type === '*/*')
+
+  return match?.[1]
+}
@@ -0,0 +1,79 @@
+/**
+ * Utility functions for forwarding server logs to MCP clients
+ */
+
+import { sessionRegistry } from '../services/sessionRegistry'
+import type { MCPLogLevel } from '../types/mcp-protocol'
+import { sendNotification } from './mcpNotifications'
+
+// RFC 5424 severities, lowest first
+export const MCP_LOG_LEVELS: MCPLogLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+]
+
+// Log types used by logToMasterData and their MCP level
+const LOG_TYPE_LEVELS: Record<string, MCPLogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+}
+
+/**
+ * Checks if a value is a valid MCP log level
+ */
+export function isMCPLogLevel(level: unknown): level is MCPLogLevel {
+  return MCP_LOG_LEVELS.includes(level as MCPLogLevel)
+}
+
+/**
+ * Sends a log entry as notifications/message to the session of the current
+ * request, when its level is at or above the level set by the client with
+ * logging/setLevel. Nothing is sent before the client sets a level.
+ * @param ctx - The request context
+ * @param step - The step being logged, used as the logger name
+ * @param identification - The identification of the log entry
+ * @param type - The log type (debug, info, warn or error)
+ * @param data - The log payload, already serializable
+ * @returns True if the notification was delivered
+ */
+export function forwardLogToClient(
+  ctx: EvtContext | Context,
+  step: string,
+  identification: string,
+  type: string,
+  data: unknown
+): boolean {
+  const level = LOG_TYPE_LEVELS[type]
+  const sessionId = ctx.state.mcpSessionId
+  const instance = ctx.state.body?.instance
+
+  if (!level || !sessionId || !instance) {
+    return false
+  }
+
+  const session = sessionRegistry.get(sessionId, instance)
+
+  if (
+    !session?.logLevel ||
+    MCP_LOG_LEVELS.indexOf(level) < MCP_LOG_LEVELS.indexOf(session.logLevel)
+  ) {
+    return false
+  }
+
+  return sendNotification(ctx as Context, 'notifications/message', {
+    level,
+    logger: step,
+    data: {
+      identification,
+      message: data,
+    },
+  })
+}
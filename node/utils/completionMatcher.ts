@@ -0,0 +1,85 @@
+/**
+ * Utility functions for ranking completion suggestions
+ */
+
+// Maximum number of values in a completion/complete result (MCP limit)
+export const MAX_COMPLETION_VALUES = 100
+
+export interface CompletionMatches {
+  values: string[]
+  total: number
+  hasMore: boolean
+}
+
+/**
+ * Filters and ranks candidates against the value typed so far. Prefix
+ * matches come first, then substring matches, then fuzzy matches (all the
+ * typed characters appear in order). Matching is case-insensitive.
+ * @param candidates - The possible values
+ * @param value - The value typed so far
+ * @returns Up to MAX_COMPLETION_VALUES values, best matches first
+ */
+export function matchCompletions(
+  candidates: string[],
+  value: string
+): CompletionMatches {
+  const query = value.trim().toLowerCase()
+  const ranked: Array<{ candidate: string; score: number }> = []
+
+  for (const candidate of Array.from(new Set(candidates))) {
+    const score = scoreCandidate(candidate.toLowerCase(), query)
+
+    if (score !== null) {
+      ranked.push({ candidate, score })
+    }
+  }
+
+  ranked.sort(
+    (a, b) =>
+      a.score - b.score ||
+      a.candidate.length - b.candidate.length ||
+      a.candidate.localeCompare(b.candidate)
+  )
+
+  return {
+    values: ranked
+      .slice(0, MAX_COMPLETION_VALUES)
+      .map(({ candidate }) => candidate),
+    total: ranked.length,
+    hasMore: ranked.length > MAX_COMPLETION_VALUES,
+  }
+}
+
+/**
+ * Scores a candidate against the query; lower is better
+ * @returns The score, or null if the candidate doesn't match
+ */
+function scoreCandidate(candidate: string, query: string): number | null {
+  if (!query || candidate.startsWith(query)) {
+    return 0
+  }
+
+  const index = candidate.indexOf(query)
+
+  if (index >= 0) {
+    return 1 + index / 1000
+  }
+
+  // Fuzzy: every query character appears in order; tighter spans rank higher
+  let position = -1
+  let first = -1
+
+  for (const char of query) {
+    position = candidate.indexOf(char, position + 1)
+
+    if (position < 0) {
+      return null
+    }
+
+    if (first < 0) {
+      first = position
+    }
+  }
+
+  return 2 + (position - first) / 1000
+}
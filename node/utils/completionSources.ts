@@ -0,0 +1,201 @@
+/**
+ * Utility functions for loading the candidates of completion/complete
+ */
+
+import { MasterDataService } from '../services/masterDataService'
+import type { MCPCompletionCompleteRequest } from '../types/mcp-protocol'
+import type { OpenAPISpec } from '../types/openapi'
+import { APIExecutor } from './apiExecutor'
+import { buildFavoriteTools, getFavoriteToolName } from './favoriteTools'
+import { RESOURCE_TEMPLATES } from './resourceUris'
+
+const HTTP_METHODS = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+]
+
+// Tools whose arguments are completed from the API specifications
+const GENERIC_TOOLS = ['vtex_api_call', 'vtex_api_specification']
+
+/**
+ * Loads the possible values of the argument being completed
+ * @param ctx - The request context
+ * @param request - The completion/complete params
+ * @returns The candidates, or null if the reference is unknown
+ */
+export async function getCompletionCandidates(
+  ctx: Context,
+  request: MCPCompletionCompleteRequest
+): Promise<string[] | null> {
+  const { ref, argument } = request
+  const contextArguments = request.context?.arguments ?? {}
+  const instance = ctx.state.body?.instance
+  const masterDataService = new MasterDataService(ctx)
+
+  if (ref.type === 'ref/resource') {
+    const template = RESOURCE_TEMPLATES.find(
+      ({ uriTemplate }) => uriTemplate === ref.uri
+    )
+
+    if (!template) {
+      return null
+    }
+
+    return getSpecCandidates(ctx, argument.name, contextArguments)
+  }
+
+  if (ref.type === 'ref/prompt') {
+    const prompt = await masterDataService.getPromptByName(instance, ref.name)
+
+    if (!prompt) {
+      return null
+    }
+
+    const definition = prompt.arguments.find(
+      ({ name }) => name === argument.name
+    )
+
+    if (!definition) {
+      return []
+    }
+
+    if (definition.enum?.length) {
+      return definition.enum
+    }
+
+    if (definition.type === 'boolean') {
+      return ['true', 'false']
+    }
+
+    return getSpecCandidates(ctx, argument.name, contextArguments)
+  }
+
+  if (ref.type === 'ref/tool') {
+    if (GENERIC_TOOLS.includes(ref.name)) {
+      return getSpecCandidates(ctx, argument.name, contextArguments)
+    }
+
+    const [specsMetadata, favorites] = await Promise.all([
+      masterDataService.getAPISpecs(),
+      masterDataService.getFavorites(instance),
+    ])
+
+    // Only the favorites named like the tool are built
+    const [favoriteTool] = await buildFavoriteTools(
+      masterDataService,
+      specsMetadata,
+      favorites.filter((favorite) => getFavoriteToolName(favorite) === ref.name)
+    )
+
+    if (!favoriteTool) {
+      return null
+    }
+
+    const property =
+      favoriteTool.tool.inputSchema.properties[argument.name] ?? {}
+
+    if (Array.isArray(property.enum)) {
+      return property.enum.map(String)
+    }
+
+    return property.type === 'boolean' ? ['true', 'false'] : []
+  }
+
+  return null
+}
+
+/**
+ * Candidates for arguments that refer to the API specifications, selected by
+ * argument name. The group, method and path already chosen by the client
+ * narrow the candidates.
+ */
+async function getSpecCandidates(
+  ctx: Context,
+  argumentName: string,
+  contextArguments: Record<string, string>
+): Promise<string[]> {
+  const masterDataService = new MasterDataService(ctx)
+  const apiGroup = contextArguments.apiGroup ?? contextArguments.group
+
+  switch (argumentName) {
+    case 'apiGroup':
+    case 'group': {
+      const specs = await masterDataService.getAPISpecs()
+
+      return specs.map((spec) => spec.apiGroup)
+    }
+
+    case 'operationId':
+    case 'path':
+    case 'method': {
+      if (!apiGroup) {
+        return argumentName === 'method' ? HTTP_METHODS : []
+      }
+
+      const spec = await fetchGroupSpec(masterDataService, apiGroup)
+
+      if (!spec) {
+        return []
+      }
+
+      const disabledMethods: string[] =
+        ctx.state.body?.mcpConfig?.disabledMethods ?? []
+
+      const operations = new APIExecutor(ctx.clients.vtexApi)
+        .listOperations(spec)
+        .filter((operation) => !disabledMethods.includes(operation.method))
+        .filter(
+          (operation) =>
+            !contextArguments.method ||
+            operation.method === contextArguments.method.toUpperCase()
+        )
+        .filter(
+          (operation) =>
+            argumentName !== 'method' ||
+            !contextArguments.path ||
+            operation.path === contextArguments.path
+        )
+
+      if (argumentName === 'operationId') {
+        return operations.map((operation) => operation.operationId)
+      }
+
+      if (argumentName === 'path') {
+        return operations.map((operation) => operation.path)
+      }
+
+      return operations.map((operation) => operation.method)
+    }
+
+    case 'schemaName': {
+      if (!apiGroup) {
+        return []
+      }
+
+      const spec = await fetchGroupSpec(masterDataService, apiGroup)
+
+      return Object.keys(spec?.components?.schemas ?? {})
+    }
+
+    default:
+      return []
+  }
+}
+
+async function fetchGroupSpec(
+  masterDataService: MasterDataService,
+  apiGroup: string
+): Promise<OpenAPISpec | null> {
+  const specMetadata = await masterDataService.getAPISpecByGroup(apiGroup)
+
+  if (!specMetadata) {
+    return null
+  }
+
+  return masterDataService.fetchSpecFromUrl(specMetadata.specUrl)
+}
@@ -0,0 +1,38 @@
+/**
+ * Utility functions for running asynchronous work with bounded concurrency
+ */
+
+/**
+ * Maps items with an async mapper, running at most `limit` mappers at once
+ * @param items - The items to map
+ * @param limit - Maximum number of mappers running at the same time
+ * @param mapper - The async mapper
+ * @returns The mapped values, in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+
+      // Each worker handles one item at a time on purpose
+      // eslint-disable-next-line no-await-in-loop
+      results[index] = await mapper(items[index], index)
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker
+  )
+
+  await Promise.all(workers)
+
+  return results
+}
@@ -2,6 +2,12 @@
  * Utility functions for mapping HTTP errors to MCP error responses
  */
 
+import type { MCPToolsCallResponse } from '../types/mcp-protocol'
+import type {
+  APIRequestFailure,
+  RequestBodyValidationFailure,
+} from './apiExecutor'
+
 export interface MCPErrorInfo {
   code: number
   message: string
@@ -33,6 +39,108 @@ export function mapHttpErrorToMCP(error: any): MCPErrorInfo {
   }
 }
 
+/**
+ * Builds the tool result of a failed VTEX API request. The failure is
+ * reported to the model with isError, instead of a JSON-RPC error, so it can
+ * read the VTEX error and correct the call.
+ * @param failure - The failure thrown by the API executor
+ * @returns Tool result with a summary and the upstream status, payload and request
+ */
+export function buildToolErrorResult(
+  failure: APIRequestFailure
+): MCPToolsCallResponse {
+  const { status, statusText, data } = failure.upstream
+  const reason = status
+    ? `${status} ${statusText || getDefaultErrorMessage(status)}`
+    : failure.error
+
+  const upstreamMessage = extractUpstreamMessage(data)
+  const summary = `VTEX API request ${failure.request.method} ${
+    failure.request.path
+  } failed: ${reason}${upstreamMessage ? ` - ${upstreamMessage}` : ''}`
+
+  return {
+    content: [
+      { type: 'text', text: summary },
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            status: status ?? null,
+            error: data ?? failure.error,
+            request: failure.request,
+          },
+          null,
+          2
+        ),
+        mimeType: 'application/json',
+      },
+    ],
+    isError: true,
+  }
+}
+
+/**
+ * Builds the tool result of a request body that doesn't match the operation
+ * schema, listing each error with the location of the invalid value so the
+ * model can fix the body and call again
+ * @param failure - The failure thrown by the API executor
+ * @returns Tool result with one line per error and the errors as JSON
+ */
+export function buildValidationErrorResult(
+  failure: RequestBodyValidationFailure
+): MCPToolsCallResponse {
+  const lines = failure.validationErrors.map(
+    (error) => `- ${error.path}: ${error.message}`
+  )
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Invalid request body for ${failure.request.method} ${
+          failure.request.path
+        } (${failure.request.contentType}), nothing was sent:\n${lines.join(
+          '\n'
+        )}`,
+      },
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            error: failure.error,
+            validationErrors: failure.validationErrors,
+            request: failure.request,
+          },
+          null,
+          2
+        ),
+        mimeType: 'application/json',
+      },
+    ],
+    isError: true,
+  }
+}
+
+/**
+ * Extracts the message of a VTEX error payload, e.g. { error: { message } },
+ * { Message } or a plain string
+ */
+function extractUpstreamMessage(data: any): string | undefined {
+  if (typeof data === 'string') {
+    return data.length > 0 ? data : undefined
+  }
+
+  const message =
+    data?.error?.message ??
+    data?.message ??
+    data?.Message ??
+    data?.errorMessage ??
+    data?.error
+
+  return typeof message === 'string' ? message : undefined
+}
+
 /**
  * Extracts HTTP status code from error object
  * @param error - The error object
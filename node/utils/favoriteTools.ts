@@ -0,0 +1,217 @@
+/**
+ * Utility functions for building MCP tools from MasterData favorites
+ */
+
+import type {
+  APISpecDocument,
+  FavoriteDocument,
+  MasterDataService,
+} from '../services/masterDataService'
+import type { MCPTool } from '../types/mcp-protocol'
+import type { OpenAPIParameter, OpenAPISpec } from '../types/openapi'
+import { getIndexedOperation, getOperationIndex } from './operationIndex'
+import type { ToolOutputSchema } from './outputSchema'
+import { deriveToolAnnotations } from './toolAnnotations'
+
+export interface FavoriteTool {
+  tool: MCPTool
+  favorite: FavoriteDocument
+  operation: any
+  method: string
+  path: string
+  // Derived from the 2xx response; listed only to clients that support it
+  outputSchema: ToolOutputSchema | null
+}
+
+/**
+ * Sanitizes a tool name, replacing unsupported characters with '_'
+ */
+export function sanitizeToolName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_:-]/g, '_')
+}
+
+/**
+ * Gets the name of the tool of a favorite
+ */
+export function getFavoriteToolName(favorite: FavoriteDocument): string {
+  return sanitizeToolName(`${favorite.apiGroup}_${favorite.operationId}`)
+}
+
+/**
+ * Builds one tool per favorite operation, deriving its input schema from the
+ * operation's path and query parameters and its annotations from the method
+ * and spec metadata. Favorites whose group or operation can't be resolved are
+ * skipped.
+ * @param masterDataService - Service used to fetch the specifications
+ * @param specsMetadata - The enabled API specifications
+ * @param favorites - The favorites of the instance
+ * @returns The favorite tools, in the order of the favorites
+ */
+export async function buildFavoriteTools(
+  masterDataService: MasterDataService,
+  specsMetadata: APISpecDocument[],
+  favorites: FavoriteDocument[]
+): Promise<FavoriteTool[]> {
+  const favoriteTools: FavoriteTool[] = []
+
+  // Build a map of apiGroup -> spec metadata for quick lookup
+  const groupToSpecMeta = new Map(
+    specsMetadata.map((spec) => [spec.apiGroup, spec])
+  )
+
+  // Prefetch specs per apiGroup once
+  const groupsToFetch = Array.from(
+    new Set(favorites.map((f) => f.apiGroup))
+  ).filter((g) => {
+    const meta = groupToSpecMeta.get(g)
+
+    return !!meta && !!meta.enabled && !!meta.specUrl
+  })
+
+  const groupToSpec = new Map<string, any>()
+
+  await Promise.all(
+    groupsToFetch.map(async (g) => {
+      const meta = groupToSpecMeta.get(g)!
+
+      try {
+        const spec = await masterDataService.fetchSpecFromUrl(meta.specUrl)
+
+        groupToSpec.set(g, spec)
+      } catch (_) {
+        // ignore individual group fetch failures; affected favorites will be skipped
+      }
+    })
+  )
+
+  // For each favorite, derive path/query parameters to build tool input schema
+  for (const fav of favorites) {
+    const meta = groupToSpecMeta.get(fav.apiGroup)
+
+    if (!meta || !meta.enabled || !meta.specUrl) {
+      continue
+    }
+
+    try {
+      const spec = groupToSpec.get(fav.apiGroup)
+
+      if (!spec) {
+        continue
+      }
+
+      const found = findFavoriteOperation(spec, fav)
+
+      if (!found) {
+        continue
+      }
+
+      const inputProperties: Record<string, any> = {}
+      const required: string[] = []
+
+      // Referenced and path-level parameters are part of the schema too
+      for (const p of found.parameters) {
+        if (p.in !== 'path' && p.in !== 'query') continue
+        const propName = p.name as string
+        const schema = (p as any).schema || { type: 'string' }
+        const mapped = mapType(schema)
+        const prop: any = {
+          ...mapped,
+        }
+
+        if (p.description) prop.description = p.description
+        if (schema.enum) prop.enum = schema.enum
+        if (schema.format) prop.format = schema.format
+
+        inputProperties[propName] = prop
+        if (p.required || p.in === 'path') required.push(propName)
+      }
+
+      const toolName = getFavoriteToolName(fav)
+      const description =
+        fav.description ||
+        `Execute ${fav.apiGroup}.${fav.operationId} (${found.method} ${found.path})`
+
+      favoriteTools.push({
+        tool: {
+          name: toolName,
+          description,
+          inputSchema: {
+            type: 'object',
+            properties: inputProperties,
+            ...(required.length > 0 ? { required } : {}),
+          },
+          annotations: deriveToolAnnotations({
+            method: found.method,
+            path: found.path,
+            operation: found.operation,
+            overrides: fav.annotations,
+          }),
+        },
+        favorite: fav,
+        operation: found.operation,
+        method: found.method,
+        path: found.path,
+        outputSchema: found.outputSchema,
+      })
+    } catch (e) {
+      // Skip on per-favorite errors; they are logged centrally when fetching specs
+      continue
+    }
+  }
+
+  return favoriteTools
+}
+
+/**
+ * Finds the operation of a favorite by operationId, falling back to the
+ * favorite's httpMethod + path, through the operation index of the spec
+ */
+function findFavoriteOperation(
+  spec: OpenAPISpec,
+  fav: FavoriteDocument
+): {
+  operation: any
+  method: string
+  path: string
+  parameters: OpenAPIParameter[]
+  outputSchema: ToolOutputSchema | null
+} | null {
+  const index = getOperationIndex(spec)
+  const entry =
+    index.findById(fav.operationId) ??
+    (fav.httpMethod && fav.path
+      ? index.findByMethodAndPath(fav.httpMethod, fav.path)
+      : undefined)
+
+  const operation = entry ? getIndexedOperation(spec, entry) : undefined
+
+  if (!entry || !operation) {
+    return null
+  }
+
+  return {
+    operation,
+    method: entry.method,
+    path: entry.path,
+    parameters: entry.parameters,
+    outputSchema: index.getOutputSchema(spec, entry),
+  }
+}
+
+/**
+ * Maps an OpenAPI schema type to JSON Schema for tool inputs
+ */
+function mapType(schema: any): any {
+  if (!schema || typeof schema !== 'object') return { type: 'string' }
+  const t = (schema.type || '').toString()
+
+  if (t === 'integer' || t === 'number') return { type: 'number' }
+  if (t === 'boolean') return { type: 'boolean' }
+  if (t === 'array') {
+    const items = mapType(schema.items || { type: 'string' })
+
+    return { type: 'array', items }
+  }
+
+  return { type: 'string' }
+}
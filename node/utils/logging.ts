@@ -1,5 +1,7 @@
 import { LINKED } from '@vtex/api'
 
+import { forwardLogToClient } from './clientLogging'
+
 /* eslint-disable no-console */
 export const logToMasterData = async (
   ctx: EvtContext | Context,
@@ -14,6 +16,9 @@ export const logToMasterData = async (
     },
   } = ctx
 
+  // Forward to the MCP client of the request, regardless of the log settings
+  forwardLogToClient(ctx, step, identification, type, toClientLogValue(message))
+
   switch (type) {
     case 'error':
       LINKED && console.error(`*** ${step}: ${identification}`, message)
@@ -67,33 +72,10 @@ export const logToMasterData = async (
       return
   }
 
-  let stringMessage
-
-  if (typeof message === 'string') {
-    stringMessage = message
-  } else if (message?.isAxiosError || message?.response?.data) {
-    stringMessage = JSON.stringify({
-      message: message.message,
-      stack: message.stack,
-      response: message.response?.data,
-      config: {
-        url: message.config?.url,
-        method: message.config?.method,
-        data: message.config?.data,
-        headers: message.config?.headers,
-        params: message.config?.params,
-        baseURL: message.config?.baseURL,
-      },
-    })
-  } else if (message instanceof Error) {
-    stringMessage = JSON.stringify({
-      message: message.message,
-      stack: message.stack,
-      name: message.name,
-    })
-  } else {
-    stringMessage = JSON.stringify(message || {})
-  }
+  const stringMessage =
+    typeof message === 'string'
+      ? message
+      : JSON.stringify(toLoggableValue(message))
 
   const fields = {
     step,
@@ -119,3 +101,75 @@ export const logToMasterData = async (
     LINKED && console.error('Failed to log to MasterData:', err)
   }
 }
+
+/**
+ * Converts a log message to a JSON serializable value
+ */
+function toLoggableValue(message: any): unknown {
+  if (typeof message === 'string') {
+    return message
+  }
+
+  if (message?.isAxiosError || message?.response?.data) {
+    return {
+      message: message.message,
+      stack: message.stack,
+      response: message.response?.data,
+      config: {
+        url: message.config?.url,
+        method: message.config?.method,
+        data: message.config?.data,
+        headers: message.config?.headers,
+        params: message.config?.params,
+        baseURL: message.config?.baseURL,
+      },
+    }
+  }
+
+  if (message instanceof Error) {
+    return {
+      message: message.message,
+      stack: message.stack,
+      name: message.name,
+    }
+  }
+
+  return message || {}
+}
+
+/**
+ * Reduces a log message to what MCP clients are sent: its message and, for
+ * failed requests, the status. Request bodies, params, headers and the rest
+ * of the logged data may hold credentials or customer data, so they are left
+ * out.
+ */
+function toClientLogValue(message: any): unknown {
+  if (typeof message === 'string') {
+    return message
+  }
+
+  if (message instanceof Error || message?.isAxiosError) {
+    return toClientError(message)
+  }
+
+  // Most entries wrap the error as { error, message }
+  return {
+    message: typeof message?.message === 'string' ? message.message : undefined,
+    error:
+      message?.error && typeof message.error === 'object'
+        ? toClientError(message.error)
+        : undefined,
+  }
+}
+
+// Axios errors carry the status in response, failed API calls in upstream
+function toClientError(error: {
+  message?: unknown
+  response?: { status?: number }
+  upstream?: { status?: number }
+}): { message?: string; status?: number } {
+  return {
+    message: typeof error.message === 'string' ? error.message : undefined,
+    status: error.response?.status ?? error.upstream?.status,
+  }
+}
@@ -0,0 +1,118 @@
+import type { PassThrough } from 'stream'
+
+import type { MCPNotification, MCPResponse } from '../types/mcp-protocol'
+import { pendingServerRequests } from '../services/pendingServerRequests'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { isEventStreamOpen, writeEvent } from './sse'
+import { parseResourceUriVariants } from './resourceUris'
+
+/**
+ * Utility functions for sending server-initiated MCP messages
+ */
+
+/**
+ * Sends a JSON-RPC notification to the client of the current request.
+ * The response stream of the request is preferred; otherwise the message
+ * goes through the standalone stream opened for the session.
+ * @param ctx - The request context
+ * @param method - The notification method (e.g., 'notifications/progress')
+ * @param params - The notification params
+ * @returns True if the notification was delivered to a stream
+ */
+export function sendNotification(
+  ctx: Context,
+  method: string,
+  params?: Record<string, any>
+): boolean {
+  return deliver(ctx, buildNotification(method, params))
+}
+
+/**
+ * Sends a JSON-RPC request to the client of the current request (e.g.
+ * elicitation/create) and waits for the client to post its response.
+ * The request goes through the same streams as notifications and needs a
+ * session, since the response arrives in a separate HTTP request.
+ * @param ctx - The request context
+ * @param method - The request method
+ * @param params - The request params
+ * @param timeoutMs - How long to wait for the response
+ * @returns The client response, or null if it wasn't delivered or timed out
+ */
+export async function sendRequest(
+  ctx: Context,
+  method: string,
+  params: Record<string, any>,
+  timeoutMs: number
+): Promise<MCPResponse | null> {
+  const sessionId = ctx.state.mcpSessionId
+
+  if (!sessionId) {
+    return null
+  }
+
+  const { id, response } = pendingServerRequests.register(sessionId, timeoutMs)
+
+  if (!deliver(ctx, { jsonrpc: '2.0', id, method, params })) {
+    pendingServerRequests.discard(id)
+  }
+
+  return response
+}
+
+/**
+ * Sends a JSON-RPC notification to a session's standalone stream
+ * @param sessionId - The MCP session id
+ * @param method - The notification method
+ * @param params - The notification params
+ * @returns True if the notification was delivered to a stream
+ */
+export function notifySession(
+  sessionId: string,
+  method: string,
+  params?: Record<string, any>
+): boolean {
+  return sessionRegistry.send(sessionId, buildNotification(method, params))
+}
+
+/**
+ * Sends notifications/resources/updated to every session subscribed to a
+ * resource of the given API group (the group spec, its operations or schemas)
+ * @param apiGroup - The API group whose specification changed
+ * @returns The number of notifications delivered
+ */
+export function notifyResourcesUpdated(apiGroup: string): number {
+  const subscriptions = sessionRegistry.findSubscriptions((uri) =>
+    parseResourceUriVariants(uri).some((parsed) => parsed.group === apiGroup)
+  )
+
+  return subscriptions.filter(({ sessionId, uri }) =>
+    notifySession(sessionId, 'notifications/resources/updated', { uri })
+  ).length
+}
+
+/**
+ * Writes a message to the response stream of the request, or to the
+ * standalone stream of its session
+ */
+function deliver(ctx: Context, message: unknown): boolean {
+  const stream = ctx.state.mcpStream
+
+  if (isEventStreamOpen(stream)) {
+    return writeEvent(stream as PassThrough, message)
+  }
+
+  const sessionId = ctx.state.mcpSessionId
+
+  return sessionId ? sessionRegistry.send(sessionId, message) : false
+}
+
+function buildNotification(
+  method: string,
+  params?: Record<string, any>
+): MCPNotification {
+  return {
+    jsonrpc: '2.0',
+    method,
+    ...(params ? { params } : {}),
+  }
+}
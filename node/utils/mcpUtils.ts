@@ -20,7 +20,15 @@ export function normalizeMCPMethod(method: string): string {
     'tools/call': 'mcp/tools/call',
     'resources/list': 'mcp/resources/list',
     'resources/read': 'mcp/resources/read',
+    'resources/templates/list': 'mcp/resources/templates/list',
+    'resources/subscribe': 'mcp/resources/subscribe',
+    'resources/unsubscribe': 'mcp/resources/unsubscribe',
+    'prompts/list': 'mcp/prompts/list',
+    'prompts/get': 'mcp/prompts/get',
+    'completion/complete': 'mcp/completion/complete',
+    'logging/setLevel': 'mcp/logging/setLevel',
     'notifications/initialized': 'mcp/notifications/initialized',
+    'notifications/cancelled': 'mcp/notifications/cancelled',
   }
 
   return methodMap[method] || method
@@ -40,7 +48,15 @@ export function isValidMCPMethod(method: string): boolean {
     'tools/call',
     'resources/list',
     'resources/read',
+    'resources/templates/list',
+    'resources/subscribe',
+    'resources/unsubscribe',
+    'prompts/list',
+    'prompts/get',
+    'completion/complete',
+    'logging/setLevel',
     'notifications/initialized',
+    'notifications/cancelled',
     // Prefixed methods
     'mcp/handshake',
     'mcp/initialize',
@@ -48,7 +64,15 @@ export function isValidMCPMethod(method: string): boolean {
     'mcp/tools/call',
     'mcp/resources/list',
     'mcp/resources/read',
+    'mcp/resources/templates/list',
+    'mcp/resources/subscribe',
+    'mcp/resources/unsubscribe',
+    'mcp/prompts/list',
+    'mcp/prompts/get',
+    'mcp/completion/complete',
+    'mcp/logging/setLevel',
     'mcp/notifications/initialized',
+    'mcp/notifications/cancelled',
   ]
 
   return validMethods.includes(method)
@@ -67,10 +91,27 @@ export function getValidMethodsForEndpoint(endpoint: string): string[] {
     'tools/call': ['tools/call', 'mcp/tools/call'],
     'resources/list': ['resources/list', 'mcp/resources/list'],
     'resources/read': ['resources/read', 'mcp/resources/read'],
+    'resources/templates/list': [
+      'resources/templates/list',
+      'mcp/resources/templates/list',
+    ],
+    'resources/subscribe': ['resources/subscribe', 'mcp/resources/subscribe'],
+    'resources/unsubscribe': [
+      'resources/unsubscribe',
+      'mcp/resources/unsubscribe',
+    ],
+    'prompts/list': ['prompts/list', 'mcp/prompts/list'],
+    'prompts/get': ['prompts/get', 'mcp/prompts/get'],
+    'completion/complete': ['completion/complete', 'mcp/completion/complete'],
+    'logging/setLevel': ['logging/setLevel', 'mcp/logging/setLevel'],
     'notifications/initialized': [
       'notifications/initialized',
       'mcp/notifications/initialized',
     ],
+    'notifications/cancelled': [
+      'notifications/cancelled',
+      'mcp/notifications/cancelled',
+    ],
   }
 
   return methodMap[endpoint] || []
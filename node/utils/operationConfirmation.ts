@@ -0,0 +1,197 @@
+/**
+ * Utility functions for asking the user to confirm VTEX API operations
+ * through elicitation before they run
+ */
+
+import { sessionRegistry } from '../services/sessionRegistry'
+import type {
+  MCPElicitationCreateRequest,
+  MCPElicitationCreateResult,
+  MCPToolAnnotations,
+} from '../types/mcp-protocol'
+import type { MCPConfig } from '../types'
+import { sendRequest } from './mcpNotifications'
+import { supportsFeature } from './protocolVersions'
+
+// How long the user has to answer, within the service timeout
+const CONFIRMATION_TIMEOUT_MS = 30 * 1000
+
+// Maximum length of the request body shown to the user
+const MAX_BODY_SUMMARY_LENGTH = 1000
+
+export interface OperationToConfirm {
+  apiGroup: string
+  operationId?: string
+  method: string
+  // OpenAPI path template of the operation
+  operationPath: string
+  // Path with the path parameters filled in
+  path: string
+  body?: unknown
+  annotations: MCPToolAnnotations
+}
+
+export interface ConfirmationOutcome {
+  proceed: boolean
+  // Why the operation must not run, when proceed is false
+  reason?: string
+}
+
+/**
+ * Checks if the instance configuration requires confirmation for an
+ * operation. Entries of confirmOperations match an operationId, an HTTP
+ * method or a "METHOD /path/template" pair, case-insensitively.
+ */
+export function isConfirmationRequiredByPolicy(
+  mcpConfig: MCPConfig | undefined,
+  operation: OperationToConfirm
+): boolean {
+  const entries = (mcpConfig?.confirmOperations ?? []).map((entry) =>
+    entry.trim().toLowerCase()
+  )
+
+  const keys = [
+    operation.method,
+    `${operation.method} ${operation.operationPath}`,
+    ...(operation.operationId ? [operation.operationId] : []),
+  ].map((key) => key.toLowerCase())
+
+  return keys.some((key) => entries.includes(key))
+}
+
+/**
+ * Checks if the client of the current request declared the elicitation
+ * capability on initialize, and negotiated a version that has elicitation
+ */
+export function supportsElicitation(ctx: Context): boolean {
+  const sessionId = ctx.state.mcpSessionId
+  const instance = ctx.state.body?.instance
+
+  if (!sessionId || !instance || !supportsFeature(ctx, 'elicitation')) {
+    return false
+  }
+
+  return !!sessionRegistry.get(sessionId, instance)?.clientCapabilities
+    ?.elicitation
+}
+
+/**
+ * Asks the user to confirm destructive operations and operations the
+ * instance policy marks as confirmation-required, with elicitation/create.
+ * Destructive operations run without confirmation for clients that don't
+ * support elicitation; policy-marked ones don't run at all.
+ * @param ctx - The request context
+ * @param operation - The resolved operation about to run
+ * @returns Whether the operation may run
+ */
+export async function confirmOperation(
+  ctx: Context,
+  operation: OperationToConfirm
+): Promise<ConfirmationOutcome> {
+  const byPolicy = isConfirmationRequiredByPolicy(
+    ctx.state.body?.mcpConfig,
+    operation
+  )
+
+  if (!byPolicy && !operation.annotations.destructiveHint) {
+    return { proceed: true }
+  }
+
+  if (!supportsElicitation(ctx)) {
+    return byPolicy
+      ? {
+          proceed: false,
+          reason:
+            'This operation requires user confirmation, but the client does not support elicitation',
+        }
+      : { proceed: true }
+  }
+
+  const request: MCPElicitationCreateRequest = {
+    message: buildConfirmationMessage(operation, byPolicy),
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: {
+          type: 'boolean',
+          title: 'Run this operation',
+          default: false,
+        },
+      },
+      required: ['confirm'],
+    },
+  }
+
+  const response = await sendRequest(
+    ctx,
+    'elicitation/create',
+    { ...request },
+    CONFIRMATION_TIMEOUT_MS
+  )
+
+  if (!response) {
+    return {
+      proceed: false,
+      reason: 'The operation was not confirmed by the user in time',
+    }
+  }
+
+  if (response.error) {
+    return {
+      proceed: false,
+      reason: `The confirmation request failed: ${response.error.message}`,
+    }
+  }
+
+  const result = response.result as MCPElicitationCreateResult | undefined
+
+  if (result?.action === 'accept' && result.content?.confirm === true) {
+    return { proceed: true }
+  }
+
+  return {
+    proceed: false,
+    reason:
+      result?.action === 'cancel'
+        ? 'The user cancelled the confirmation'
+        : 'The user declined the operation',
+  }
+}
+
+/**
+ * Describes the operation for the user: method, resolved path, why it needs
+ * confirmation and a summary of the request body
+ */
+function buildConfirmationMessage(
+  operation: OperationToConfirm,
+  byPolicy: boolean
+): string {
+  const name = operation.operationId
+    ? `${operation.apiGroup}.${operation.operationId}`
+    : operation.apiGroup
+
+  const lines = [
+    `Confirm ${operation.method} ${operation.path} (${name})`,
+    byPolicy
+      ? 'This operation requires confirmation for this instance.'
+      : 'This operation may delete or cancel data.',
+  ]
+
+  if (operation.annotations.title) {
+    lines.push(`Operation: ${operation.annotations.title}`)
+  }
+
+  if (operation.body !== undefined && operation.body !== null) {
+    const body = JSON.stringify(operation.body, null, 2) ?? ''
+
+    lines.push(
+      `Body:\n${
+        body.length > MAX_BODY_SUMMARY_LENGTH
+          ? `${body.slice(0, MAX_BODY_SUMMARY_LENGTH)}… (truncated)`
+          : body
+      }`
+    )
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,212 @@
+/**
+ * Operation index of OpenAPI specifications: one compact entry per
+ * operation, so operations are found by operationId or method and path
+ * without walking spec.paths
+ */
+
+import type {
+  IndexedOperation,
+  OpenAPIOperation,
+  OpenAPIPathItem,
+  OpenAPISpec,
+} from '../types/openapi'
+import type { ToolOutputSchema } from './outputSchema'
+import { deriveOutputSchema } from './outputSchema'
+import { isReference, resolveOperationParameters } from './refResolver'
+
+// HTTP methods of path items, in the order operations are indexed
+export const HTTP_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'head',
+  'options',
+] as const
+
+// Indexes of the specifications in use, registered when they are fetched
+const indexes = new WeakMap<OpenAPISpec, OperationIndex>()
+
+export class OperationIndex {
+  // Keyed by lower case operationId, since lookups are case-insensitive
+  private readonly byOperationId = new Map<string, IndexedOperation>()
+  private readonly byMethodAndPath = new Map<string, IndexedOperation>()
+  // Derived on first use, since few operations are favorites
+  private readonly outputSchemas = new Map<
+    IndexedOperation,
+    ToolOutputSchema | null
+  >()
+
+  constructor(public readonly operations: IndexedOperation[]) {
+    for (const entry of operations) {
+      const operationId = entry.operationId?.toLowerCase()
+
+      // The first operation wins when operationIds are duplicated
+      if (operationId && !this.byOperationId.has(operationId)) {
+        this.byOperationId.set(operationId, entry)
+      }
+
+      this.byMethodAndPath.set(`${entry.method} ${entry.path}`, entry)
+    }
+  }
+
+  /**
+   * Builds the index of a specification, resolving the parameters of every
+   * operation
+   */
+  public static build(spec: OpenAPISpec): OperationIndex {
+    const operations: IndexedOperation[] = []
+
+    for (const [path, pathItem] of Object.entries(spec.paths ?? {})) {
+      if (!pathItem || typeof pathItem !== 'object') {
+        continue
+      }
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method]
+
+        if (!operation || typeof operation !== 'object') {
+          continue
+        }
+
+        const requestBodyRef = getRequestBodyRef(operation)
+
+        operations.push({
+          ...(operation.operationId
+            ? { operationId: operation.operationId }
+            : {}),
+          method: method.toUpperCase(),
+          path,
+          ...(operation.summary
+            ? { summary: operation.summary }
+            : getDescription(operation, pathItem)),
+          ...(operation.tags?.length ? { tags: operation.tags } : {}),
+          parameters: resolveOperationParameters(spec, operation, pathItem),
+          ...(requestBodyRef ? { requestBodyRef } : {}),
+        })
+      }
+    }
+
+    return new OperationIndex(operations)
+  }
+
+  /**
+   * Finds an operation by operationId, case-insensitively
+   */
+  public findById(operationId: string): IndexedOperation | undefined {
+    return this.byOperationId.get(operationId.toLowerCase())
+  }
+
+  /**
+   * Finds an operation by HTTP method and path template
+   */
+  public findByMethodAndPath(
+    method: string,
+    path: string
+  ): IndexedOperation | undefined {
+    return this.byMethodAndPath.get(`${method.toUpperCase()} ${path}`)
+  }
+
+  /**
+   * Gets the tool output schema of an operation of the index, derived from
+   * its 2xx response
+   * @param spec - The specification the index was built from
+   * @param entry - The index entry of the operation
+   * @returns The output schema, or null if the operation has no JSON 2xx response
+   */
+  public getOutputSchema(
+    spec: OpenAPISpec,
+    entry: IndexedOperation
+  ): ToolOutputSchema | null {
+    if (!this.outputSchemas.has(entry)) {
+      this.outputSchemas.set(
+        entry,
+        deriveOutputSchema(spec, getIndexedOperation(spec, entry))
+      )
+    }
+
+    return this.outputSchemas.get(entry) ?? null
+  }
+}
+
+/**
+ * Gets the index of a specification: the one registered when it was
+ * fetched, or one built now
+ */
+export function getOperationIndex(spec: OpenAPISpec): OperationIndex {
+  let index = indexes.get(spec)
+
+  if (!index) {
+    index = OperationIndex.build(spec)
+    indexes.set(spec, index)
+  }
+
+  return index
+}
+
+/**
+ * Registers the index of a specification, e.g. one loaded from the store
+ */
+export function registerOperationIndex(
+  spec: OpenAPISpec,
+  index: OperationIndex
+): void {
+  indexes.set(spec, index)
+}
+
+/**
+ * Gets the operation object of an index entry from its specification
+ */
+export function getIndexedOperation(
+  spec: OpenAPISpec,
+  entry: IndexedOperation
+): OpenAPIOperation | undefined {
+  return getIndexedPathItem(spec, entry)?.[
+    entry.method.toLowerCase() as (typeof HTTP_METHODS)[number]
+  ]
+}
+
+/**
+ * Gets the path item of an index entry from its specification
+ */
+export function getIndexedPathItem(
+  spec: OpenAPISpec,
+  entry: IndexedOperation
+): OpenAPIPathItem | undefined {
+  return spec.paths?.[entry.path]
+}
+
+/**
+ * The reference of the request body, or of the schema of its first JSON (or
+ * first) media type
+ */
+function getRequestBodyRef(operation: OpenAPIOperation): string | undefined {
+  const { requestBody } = operation
+
+  if (!requestBody) {
+    return undefined
+  }
+
+  if (isReference(requestBody)) {
+    return requestBody.$ref
+  }
+
+  const content = requestBody.content ?? {}
+  const mediaType =
+    Object.keys(content).find((type) => type.includes('json')) ??
+    Object.keys(content)[0]
+
+  const schema = mediaType ? content[mediaType]?.schema : undefined
+
+  return isReference(schema) ? schema.$ref : undefined
+}
+
+function getDescription(
+  operation: OpenAPIOperation,
+  pathItem: OpenAPIPathItem
+): { description?: string } {
+  const description = operation.description || pathItem.description
+
+  return description ? { description } : {}
+}
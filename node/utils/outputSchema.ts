@@ -0,0 +1,105 @@
+/**
+ * Utility functions for deriving MCP tool output schemas from OpenAPI
+ * response schemas
+ */
+
+import type { MCPTool } from '../types/mcp-protocol'
+import type { OpenAPISpec } from '../types/openapi'
+import { dereferenceSchema, resolveReference } from './refResolver'
+import { validateAgainstSchema } from './schemaValidator'
+
+export interface ToolOutputSchema {
+  schema: NonNullable<MCPTool['outputSchema']>
+  // True when the response schema isn't an object and was wrapped in
+  // { data }, since MCP output schemas must describe objects
+  wrapped: boolean
+}
+
+/**
+ * Derives the output schema of a tool from the JSON schema of the first 2xx
+ * response of its operation. Use OperationIndex.getOutputSchema, which keeps
+ * the result, for indexed operations.
+ * @param spec - The OpenAPI specification of the operation
+ * @param operation - The OpenAPI operation object
+ * @returns The output schema, or null if the operation has no JSON 2xx response
+ */
+export function deriveOutputSchema(
+  spec: OpenAPISpec,
+  operation: any
+): ToolOutputSchema | null {
+  const schema = getSuccessResponseSchema(spec, operation)
+
+  if (!schema) {
+    return null
+  }
+
+  const inlined = dereferenceSchema(spec, schema) as Record<string, any>
+
+  if (inlined.type === 'object' || (!inlined.type && inlined.properties)) {
+    return { schema: { ...inlined, type: 'object' }, wrapped: false }
+  }
+
+  return {
+    schema: {
+      type: 'object',
+      properties: { data: inlined },
+      required: ['data'],
+    },
+    wrapped: true,
+  }
+}
+
+/**
+ * Builds the structuredContent of a tool result so it matches the output
+ * schema of the tool. Responses that don't match the schema, e.g. when the
+ * specification is out of date, are left to the text content.
+ * @param data - The response data of the VTEX API
+ * @param outputSchema - The output schema of the tool
+ * @returns The structured content, or undefined if the data doesn't match it
+ */
+export function toStructuredContent(
+  data: unknown,
+  outputSchema: ToolOutputSchema
+): Record<string, any> | undefined {
+  const structuredContent = outputSchema.wrapped
+    ? { data }
+    : (data as Record<string, any>)
+
+  if (
+    !structuredContent ||
+    typeof structuredContent !== 'object' ||
+    Array.isArray(structuredContent)
+  ) {
+    return undefined
+  }
+
+  return validateAgainstSchema(outputSchema.schema, structuredContent)
+    .length === 0
+    ? structuredContent
+    : undefined
+}
+
+/**
+ * Finds the JSON schema of the lowest 2xx response (200 before 201, explicit
+ * codes before 2XX)
+ */
+function getSuccessResponseSchema(spec: OpenAPISpec, operation: any): any {
+  const responses = operation?.responses ?? {}
+  const statusCodes = Object.keys(responses)
+    .filter((code) => /^2(\d\d|XX)$/i.test(code))
+    .sort((a, b) => a.localeCompare(b))
+
+  for (const code of statusCodes) {
+    const response = resolveReference<any>(spec, responses[code])
+    const content = response?.content ?? {}
+    const mediaType =
+      content['application/json'] ??
+      Object.entries<any>(content).find(([type]) => type.includes('json'))?.[1]
+
+    if (mediaType?.schema) {
+      return mediaType.schema
+    }
+  }
+
+  return null
+}
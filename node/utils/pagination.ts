@@ -0,0 +1,96 @@
+/**
+ * Utility functions for cursor-based pagination of MCP list methods
+ */
+
+import type { MCPConfig } from '../types'
+import { DEFAULT_MCP_CONFIG } from '../types'
+
+export interface PaginatedResult<T> {
+  items: T[]
+  nextCursor?: string
+}
+
+interface CursorPayload {
+  // List the cursor was issued for, so cursors are not mixed across methods
+  list: string
+  offset: number
+}
+
+const MAX_PAGE_SIZE = 1000
+
+/**
+ * Gets the page size configured for the instance
+ * @param mcpConfig - The MCP configuration of the instance
+ * @returns A page size between 1 and MAX_PAGE_SIZE
+ */
+export function getPageSize(mcpConfig: MCPConfig | undefined): number {
+  const pageSize = Number(mcpConfig?.pageSize)
+
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    return DEFAULT_MCP_CONFIG.pageSize as number
+  }
+
+  return Math.min(pageSize, MAX_PAGE_SIZE)
+}
+
+/**
+ * Returns the page of items that starts at the given cursor
+ * @param list - The list name (e.g., 'tools', 'resources')
+ * @param items - All the items of the list
+ * @param cursor - The opaque cursor received from the client, if any
+ * @param pageSize - The maximum number of items per page
+ * @returns The page and the cursor of the next one, or null if the cursor is invalid
+ */
+export function paginate<T>(
+  list: string,
+  items: T[],
+  cursor: unknown,
+  pageSize: number
+): PaginatedResult<T> | null {
+  let offset = 0
+
+  if (cursor !== undefined && cursor !== null) {
+    const payload = decodeCursor(cursor)
+
+    if (!payload || payload.list !== list || payload.offset > items.length) {
+      return null
+    }
+
+    ;({ offset } = payload)
+  }
+
+  const end = offset + pageSize
+
+  return {
+    items: items.slice(offset, end),
+    ...(end < items.length
+      ? { nextCursor: encodeCursor({ list, offset: end }) }
+      : {}),
+  }
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+function decodeCursor(cursor: unknown): CursorPayload | null {
+  if (typeof cursor !== 'string' || !cursor) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+
+    if (
+      typeof payload?.list !== 'string' ||
+      !Number.isInteger(payload?.offset) ||
+      payload.offset < 0
+    ) {
+      return null
+    }
+
+    return payload as CursorPayload
+  } catch {
+    return null
+  }
+}
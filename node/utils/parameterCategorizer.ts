@@ -1,4 +1,5 @@
-import type { OpenAPISpec, OpenAPIOperation } from '../types/openapi'
+import type { OpenAPISpec } from '../types/openapi'
+import { getOperationIndex } from './operationIndex'
 
 /**
  * Utility to categorize parameters based on OpenAPI specification
@@ -28,20 +29,20 @@ export function categorizeParameters(
     headers: {},
   }
 
-  // Find the operation
-  let operation: OpenAPIOperation | null = null
+  // Find the operation through the operation index of the spec
+  const index = getOperationIndex(openApiSpec)
+  const found =
+    typeof operationOrLocator === 'string'
+      ? index.findById(operationOrLocator)
+      : index.findByMethodAndPath(
+          operationOrLocator.method,
+          operationOrLocator.path
+        )
 
-  if (typeof operationOrLocator === 'string') {
-    operation = findOperation(openApiSpec, operationOrLocator)
-  } else {
-    operation = findOperationByPathAndMethod(
-      openApiSpec,
-      operationOrLocator.method,
-      operationOrLocator.path
-    )
-  }
+  // Referenced and path-level parameters count as well
+  const parameters = found?.parameters ?? []
 
-  if (!operation || !operation.parameters) {
+  if (parameters.length === 0) {
     // If no operation found or no parameters defined, treat all as query params
     return {
       pathParams: {},
@@ -52,11 +53,9 @@ export function categorizeParameters(
 
   // Categorize each provided parameter
   for (const [paramName, paramValue] of Object.entries(providedParams)) {
-    const paramDef = operation.parameters.find(
-      (p) => 'name' in p && p.name === paramName
-    )
+    const paramDef = parameters.find((p) => p.name === paramName)
 
-    if (paramDef && 'in' in paramDef) {
+    if (paramDef) {
       switch (paramDef.in) {
         case 'path':
           result.pathParams[paramName] = paramValue
@@ -83,59 +82,3 @@ export function categorizeParameters(
 
   return result
 }
-
-/**
- * Finds an operation by its operationId in the OpenAPI specification
- * @param spec - The OpenAPI specification
- * @param operationId - The operation ID to find
- * @returns The operation or null if not found
- */
-function findOperation(
-  spec: OpenAPISpec,
-  operationId: string
-): OpenAPIOperation | null {
-  const targetId = operationId.toLowerCase()
-
-  if (!spec.paths) {
-    return null
-  }
-
-  for (const pathItem of Object.values(spec.paths)) {
-    if (!pathItem) continue
-
-    const methods = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options']
-
-    for (const method of methods) {
-      const operation = pathItem[method as keyof typeof pathItem]
-
-      if (
-        operation &&
-        typeof operation === 'object' &&
-        'operationId' in operation &&
-        operation.operationId &&
-        (operation.operationId as string).toLowerCase() === targetId
-      ) {
-        return operation as OpenAPIOperation
-      }
-    }
-  }
-
-  return null
-}
-
-/**
- * Finds an operation by explicit method and path
- */
-function findOperationByPathAndMethod(
-  spec: OpenAPISpec,
-  method: string,
-  path: string
-): OpenAPIOperation | null {
-  const pathItem = (spec.paths as any)[path]
-
-  if (!pathItem) return null
-
-  const op = pathItem[method.toLowerCase()]
-
-  return (op || null) as OpenAPIOperation | null
-}
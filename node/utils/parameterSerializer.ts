@@ -0,0 +1,359 @@
+/**
+ * Serialization of path, query and header parameters as the OpenAPI
+ * specification describes them: by style (matrix, label, form, simple,
+ * spaceDelimited, pipeDelimited, deepObject), explode and allowReserved.
+ * Parameter schemas are expected to be dereferenced (see
+ * refResolver.resolveOperationParameters).
+ */
+
+import type { OpenAPIParameter, OpenAPISchema } from '../types/openapi'
+
+// Characters kept as they are in query values with allowReserved (RFC 3986)
+const RESERVED_CHARACTERS =
+  /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi
+
+// Separators of non-exploded arrays and objects in query values, by style
+const QUERY_DELIMITERS: Record<string, string> = {
+  form: ',',
+  spaceDelimited: '%20',
+  pipeDelimited: '|',
+}
+
+// Separators of array values given as strings, by style
+const INPUT_DELIMITERS: Record<string, string> = {
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+}
+
+type Encoder = (value: string) => string
+
+/**
+ * Converts a parameter value to the type of its schema. Strings become
+ * integers, numbers and booleans, and arrays or objects when they hold JSON;
+ * strings for arrays are split by the delimiter of the parameter style.
+ * Values of other types, or of parameters without a schema type, are kept.
+ * @param parameter - The parameter definition
+ * @param value - The value provided for the parameter
+ * @returns The coerced value
+ * @throws Error when a string can't be converted to the schema type
+ */
+export function coerceParameterValue(
+  parameter: OpenAPIParameter,
+  value: any
+): any {
+  const schema = (parameter.schema ?? {}) as OpenAPISchema
+
+  return coerceValue(parameter, schema, value)
+}
+
+/**
+ * Serializes a path parameter (simple, label or matrix style)
+ * @returns The encoded value that replaces the path template placeholder
+ */
+export function serializePathParameter(
+  parameter: OpenAPIParameter,
+  value: any
+): string {
+  const style = parameter.style ?? 'simple'
+  const explode = parameter.explode ?? false
+  const name = encodeURIComponent(parameter.name)
+  const encode: Encoder = encodeURIComponent
+
+  if (parameter.content) {
+    return encode(JSON.stringify(value))
+  }
+
+  if (style === 'label') {
+    return `.${serializeSimple(value, explode, encode, explode ? '.' : ',')}`
+  }
+
+  if (style === 'matrix') {
+    if (Array.isArray(value)) {
+      return explode
+        ? value.map((item) => `;${name}=${encode(toText(item))}`).join('')
+        : `;${name}=${value.map((item) => encode(toText(item))).join(',')}`
+    }
+
+    if (isPlainObject(value)) {
+      return explode
+        ? Object.entries(value)
+            .map(([key, item]) => `;${encode(key)}=${encode(toText(item))}`)
+            .join('')
+        : `;${name}=${serializeSimple(value, false, encode, ',')}`
+    }
+
+    return `;${name}=${encode(toText(value))}`
+  }
+
+  return serializeSimple(value, explode, encode, ',')
+}
+
+/**
+ * Serializes a query parameter (form, spaceDelimited, pipeDelimited or
+ * deepObject style)
+ * @returns The encoded name=value pairs of the parameter
+ */
+export function serializeQueryParameter(
+  parameter: OpenAPIParameter,
+  value: any
+): string[] {
+  const style = parameter.style ?? 'form'
+  const explode = parameter.explode ?? style === 'form'
+  const name = encodeURIComponent(parameter.name)
+  const encode = getQueryEncoder(parameter.allowReserved)
+
+  if (parameter.content) {
+    return [`${name}=${encode(JSON.stringify(value))}`]
+  }
+
+  if (style === 'deepObject' && isPlainObject(value)) {
+    return serializeDeepObject(name, value, encode)
+  }
+
+  const delimiter = QUERY_DELIMITERS[style] ?? ','
+
+  if (Array.isArray(value)) {
+    return explode || style === 'deepObject'
+      ? value.map((item) => `${name}=${encode(toText(item))}`)
+      : [`${name}=${value.map((item) => encode(toText(item))).join(delimiter)}`]
+  }
+
+  if (isPlainObject(value)) {
+    return explode
+      ? Object.entries(value).map(
+          ([key, item]) => `${encodeURIComponent(key)}=${encode(toText(item))}`
+        )
+      : [
+          `${name}=${Object.entries(value)
+            .map(
+              ([key, item]) =>
+                `${encode(key)}${delimiter}${encode(toText(item))}`
+            )
+            .join(delimiter)}`,
+        ]
+  }
+
+  return [`${name}=${encode(toText(value))}`]
+}
+
+/**
+ * Serializes a header parameter (simple style). Header values are not
+ * percent-encoded.
+ */
+export function serializeHeaderParameter(
+  parameter: OpenAPIParameter,
+  value: any
+): string {
+  if (parameter.content) {
+    return JSON.stringify(value)
+  }
+
+  return serializeSimple(value, parameter.explode ?? false, (text) => text, ',')
+}
+
+/**
+ * Serializes query values without parameter definitions, as form style
+ * exploded parameters
+ * @returns The query string, without the leading ?
+ */
+export function serializeQuery(query: Record<string, any>): string {
+  return Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .flatMap(([name, value]) =>
+      serializeQueryParameter({ name, in: 'query' }, value)
+    )
+    .join('&')
+}
+
+function coerceValue(
+  parameter: OpenAPIParameter,
+  schema: OpenAPISchema,
+  value: any
+): any {
+  const type = getSchemaType(schema)
+
+  if (type === 'array') {
+    const items = toArray(parameter, value)
+
+    return items.map((item) =>
+      coerceValue(parameter, (schema.items ?? {}) as OpenAPISchema, item)
+    )
+  }
+
+  if (typeof value !== 'string') {
+    return value
+  }
+
+  const text = value.trim()
+
+  switch (type) {
+    case 'integer':
+      if (!/^[-+]?\d+$/.test(text)) {
+        throw new Error(describe(parameter, 'must be an integer', value))
+      }
+
+      return Number(text)
+
+    case 'number':
+      if (text === '' || !Number.isFinite(Number(text))) {
+        throw new Error(describe(parameter, 'must be a number', value))
+      }
+
+      return Number(text)
+
+    case 'boolean':
+      if (!/^(true|false)$/i.test(text)) {
+        throw new Error(describe(parameter, 'must be a boolean', value))
+      }
+
+      return text.toLowerCase() === 'true'
+
+    case 'object':
+      if (!text.startsWith('{')) {
+        throw new Error(describe(parameter, 'must be an object', value))
+      }
+
+      return parseJSON(parameter, text, 'must be an object')
+
+    default:
+      return value
+  }
+}
+
+/**
+ * Gets the items of an array parameter: arrays as they are, JSON arrays and
+ * delimited strings split, and any other value as a single item
+ */
+function toArray(parameter: OpenAPIParameter, value: any): any[] {
+  if (Array.isArray(value)) {
+    return value
+  }
+
+  if (typeof value !== 'string') {
+    return [value]
+  }
+
+  const text = value.trim()
+
+  if (text.startsWith('[')) {
+    const parsed = parseJSON(parameter, text, 'must be an array')
+
+    if (!Array.isArray(parsed)) {
+      throw new Error(describe(parameter, 'must be an array', value))
+    }
+
+    return parsed
+  }
+
+  if (text === '') {
+    return []
+  }
+
+  return value.split(INPUT_DELIMITERS[parameter.style ?? ''] ?? ',')
+}
+
+function serializeSimple(
+  value: any,
+  explode: boolean,
+  encode: Encoder,
+  delimiter: string
+): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => encode(toText(item))).join(delimiter)
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value)
+      .map(([key, item]) =>
+        explode
+          ? `${encode(key)}=${encode(toText(item))}`
+          : `${encode(key)},${encode(toText(item))}`
+      )
+      .join(delimiter)
+  }
+
+  return encode(toText(value))
+}
+
+/**
+ * Serializes an object as name[key]=value pairs, nesting brackets for
+ * nested objects and repeating the name for arrays
+ */
+function serializeDeepObject(
+  name: string,
+  value: Record<string, any>,
+  encode: Encoder
+): string[] {
+  return Object.entries(value).flatMap(([key, item]) => {
+    const itemName = `${name}[${encodeURIComponent(key)}]`
+
+    if (item === undefined || item === null) {
+      return []
+    }
+
+    if (isPlainObject(item)) {
+      return serializeDeepObject(itemName, item, encode)
+    }
+
+    if (Array.isArray(item)) {
+      return item.map((element) => `${itemName}=${encode(toText(element))}`)
+    }
+
+    return [`${itemName}=${encode(toText(item))}`]
+  })
+}
+
+function getQueryEncoder(allowReserved?: boolean): Encoder {
+  if (!allowReserved) {
+    return encodeURIComponent
+  }
+
+  return (value) =>
+    encodeURIComponent(value).replace(RESERVED_CHARACTERS, (match) =>
+      decodeURIComponent(match)
+    )
+}
+
+// The first type of OpenAPI 3.1 type arrays, other than null
+function getSchemaType(schema: OpenAPISchema): string | undefined {
+  const { type } = schema as { type?: string | string[] }
+
+  if (Array.isArray(type)) {
+    return type.find((item) => item !== 'null')
+  }
+
+  return type
+}
+
+// Nested arrays and objects are sent as JSON rather than [object Object]
+function toText(value: any): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseJSON(
+  parameter: OpenAPIParameter,
+  text: string,
+  expectation: string
+): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new Error(describe(parameter, expectation, text))
+  }
+}
+
+function describe(
+  parameter: OpenAPIParameter,
+  expectation: string,
+  value: string
+): string {
+  return `Parameter '${parameter.name}' (${parameter.in}) ${expectation}, got '${value}'`
+}
@@ -0,0 +1,149 @@
+/**
+ * Utility functions for rendering prompts stored in MasterData
+ */
+
+import type {
+  PromptArgumentData,
+  PromptDocument,
+} from '../services/masterDataService'
+import type { MCPPrompt, MCPPromptMessage } from '../types/mcp-protocol'
+
+export interface PromptArgumentsResult {
+  values: Record<string, string>
+  errors: string[]
+}
+
+// Matches {{name}} placeholders, allowing spaces around the name
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_-]+)\s*\}\}/g
+
+/**
+ * Builds the prompt definition exposed through prompts/list
+ * @param prompt - The prompt document
+ * @returns MCP prompt definition
+ */
+export function toMCPPrompt(prompt: PromptDocument): MCPPrompt {
+  return {
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: prompt.arguments.map((argument) => ({
+      name: argument.name,
+      description: argument.description,
+      required: Boolean(argument.required),
+    })),
+  }
+}
+
+/**
+ * Validates and coerces the arguments received on prompts/get
+ * @param prompt - The prompt document
+ * @param args - The arguments sent by the client
+ * @returns The normalized values and a list of validation errors
+ */
+export function resolvePromptArguments(
+  prompt: PromptDocument,
+  args: Record<string, unknown> | undefined
+): PromptArgumentsResult {
+  const values: Record<string, string> = {}
+  const errors: string[] = []
+  const received = args ?? {}
+
+  for (const argument of prompt.arguments) {
+    const rawValue = received[argument.name]
+
+    if (rawValue === undefined || rawValue === null || rawValue === '') {
+      if (argument.required) {
+        errors.push(`Missing required argument: ${argument.name}`)
+      }
+
+      continue
+    }
+
+    const error = validateArgumentValue(argument, String(rawValue))
+
+    if (error) {
+      errors.push(error)
+
+      continue
+    }
+
+    values[argument.name] = String(rawValue)
+  }
+
+  const knownNames = prompt.arguments.map((argument) => argument.name)
+
+  for (const name of Object.keys(received)) {
+    if (!knownNames.includes(name)) {
+      errors.push(`Unknown argument: ${name}`)
+    }
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Replaces {{name}} placeholders in the prompt messages
+ * @param prompt - The prompt document
+ * @param values - The validated argument values
+ * @returns Messages ready to be sent to the client
+ */
+export function renderPromptMessages(
+  prompt: PromptDocument,
+  values: Record<string, string>
+): MCPPromptMessage[] {
+  return prompt.messages.map((message) => ({
+    role: message.role,
+    content: {
+      type: 'text',
+      text: message.text.replace(
+        PLACEHOLDER_PATTERN,
+        (_match, name: string) => values[name] ?? ''
+      ),
+    },
+  }))
+}
+
+/**
+ * Checks a single argument value against its declared type and enum
+ * @param argument - The argument definition
+ * @param value - The value received, as a string
+ * @returns An error message, or undefined when the value is valid
+ */
+function validateArgumentValue(
+  argument: PromptArgumentData,
+  value: string
+): string | undefined {
+  switch (argument.type) {
+    case 'number':
+      if (value.trim() === '' || Number.isNaN(Number(value))) {
+        return `Argument ${argument.name} must be a number`
+      }
+
+      break
+
+    case 'integer':
+      if (!/^-?\d+$/.test(value.trim())) {
+        return `Argument ${argument.name} must be an integer`
+      }
+
+      break
+
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        return `Argument ${argument.name} must be true or false`
+      }
+
+      break
+
+    default:
+      break
+  }
+
+  if (argument.enum?.length && !argument.enum.includes(value)) {
+    return `Argument ${argument.name} must be one of: ${argument.enum.join(
+      ', '
+    )}`
+  }
+
+  return undefined
+}
@@ -0,0 +1,100 @@
+/**
+ * Utility functions for protocol version negotiation and version dependent
+ * behavior
+ */
+
+import { sessionRegistry } from '../services/sessionRegistry'
+
+// Protocol versions supported by the server, oldest first
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  '2024-11-05',
+  '2025-03-26',
+  '2025-06-18',
+]
+
+export const LATEST_PROTOCOL_VERSION =
+  SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1]
+
+export type ProtocolFeature =
+  | 'structuredOutput'
+  | 'resourceLinks'
+  | 'elicitation'
+  | 'batching'
+  | 'completions'
+
+/**
+ * Protocol versions in which each version dependent feature is available.
+ * Versions are dates, so they compare as strings.
+ */
+const PROTOCOL_FEATURES: Record<
+  ProtocolFeature,
+  { since: string; until?: string }
+> = {
+  // Tool outputSchema and structuredContent
+  structuredOutput: { since: '2025-06-18' },
+  // resource_link content in tool results
+  resourceLinks: { since: '2025-06-18' },
+  // elicitation/create requests
+  elicitation: { since: '2025-06-18' },
+  // JSON-RPC batches, removed in 2025-06-18
+  batching: { since: '2025-03-26', until: '2025-03-26' },
+  // The completions capability of initialize
+  completions: { since: '2025-03-26' },
+}
+
+/**
+ * Chooses the protocol version of a session: the one requested by the
+ * client when supported, otherwise the latest supported version, which the
+ * client may accept or disconnect from
+ * @param requested - The protocolVersion sent on initialize
+ * @returns The protocol version to answer with
+ */
+export function negotiateProtocolVersion(requested: string): string {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : LATEST_PROTOCOL_VERSION
+}
+
+/**
+ * Checks if a feature is available in a protocol version
+ */
+export function isFeatureSupported(
+  version: string | undefined,
+  feature: ProtocolFeature
+): boolean {
+  const { since, until } = PROTOCOL_FEATURES[feature]
+
+  return !!version && version >= since && (!until || version <= until)
+}
+
+/**
+ * Gets the protocol version used by the client of the current request: the
+ * version negotiated on initialize for the session, or the
+ * MCP-Protocol-Version header on requests without a session
+ * @param ctx - The request context
+ * @returns The protocol version, or undefined if it's unknown
+ */
+export function getProtocolVersion(ctx: Context): string | undefined {
+  const sessionId = ctx.state.mcpSessionId
+  const instance = ctx.state.body?.instance
+
+  if (sessionId && instance) {
+    const version = sessionRegistry.get(sessionId, instance)?.protocolVersion
+
+    if (version) {
+      return version
+    }
+  }
+
+  return ctx.get('mcp-protocol-version') || undefined
+}
+
+/**
+ * Checks if a feature is available to the client of the current request
+ */
+export function supportsFeature(
+  ctx: Context,
+  feature: ProtocolFeature
+): boolean {
+  return isFeatureSupported(getProtocolVersion(ctx), feature)
+}
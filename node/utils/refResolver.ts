@@ -0,0 +1,324 @@
+/**
+ * Utility functions for resolving local references ($ref) of OpenAPI
+ * specifications, so consumers work with the referenced parameters, request
+ * bodies, responses and schemas
+ */
+
+import type {
+  OpenAPIOperation,
+  OpenAPIParameter,
+  OpenAPIPathItem,
+  OpenAPIReference,
+  OpenAPIRequestBody,
+  OpenAPIResponse,
+  OpenAPISchema,
+  OpenAPISpec,
+} from '../types/openapi'
+
+// Maximum depth of inlined schema references
+const MAX_REF_DEPTH = 10
+
+// Dereferenced schemas by reference, per specification. A reference shared
+// by many schemas is walked once, instead of once per occurrence.
+const dereferencedRefs = new WeakMap<OpenAPISpec, Map<string, any>>()
+
+interface InlineWalk {
+  // References being inlined on the current branch, to detect cycles
+  seen: string[]
+  // Lowest position of seen where a cycle was cut
+  cutAt: number
+  // Whether a branch was cut at MAX_REF_DEPTH
+  depthLimited: boolean
+}
+
+/**
+ * Checks if a value is a reference object
+ */
+export function isReference(value: unknown): value is OpenAPIReference {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as any).$ref === 'string'
+  )
+}
+
+/**
+ * Resolves a local JSON pointer reference such as
+ * #/components/schemas/Order, without following references in the target
+ * @returns The referenced value, or undefined for external or missing targets
+ */
+export function resolvePointer(spec: OpenAPISpec, ref: string): any {
+  if (!ref.startsWith('#/')) {
+    return undefined
+  }
+
+  return ref
+    .slice(2)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, segment) => node?.[segment], spec)
+}
+
+/**
+ * Resolves a value that may be a reference, following chains of references
+ * (e.g. a parameter referencing another parameter). Keys next to $ref, such
+ * as description, override the ones of the target.
+ * @param spec - The OpenAPI specification holding the components
+ * @param value - The value or reference
+ * @returns The resolved value, or undefined for cyclic, external or missing references
+ */
+export function resolveReference<T>(
+  spec: OpenAPISpec,
+  value: T | OpenAPIReference | undefined
+): T | undefined {
+  const seen: string[] = []
+  let current: any = value
+
+  while (isReference(current)) {
+    const { $ref, ...siblings } = current
+
+    if (seen.includes($ref)) {
+      return undefined
+    }
+
+    seen.push($ref)
+
+    const target = resolvePointer(spec, $ref)
+
+    if (target === undefined) {
+      return undefined
+    }
+
+    current =
+      Object.keys(siblings).length > 0 && target && typeof target === 'object'
+        ? { ...target, ...siblings }
+        : target
+  }
+
+  return current as T | undefined
+}
+
+/**
+ * Replaces every reference of a schema with the referenced schema, so it is
+ * self-contained. Cyclic references and references deeper than
+ * MAX_REF_DEPTH become unconstrained schemas. Referenced schemas are shared
+ * between the results of a specification, so results must not be mutated.
+ * @param spec - The OpenAPI specification holding the components
+ * @param schema - The schema, which may be a reference itself
+ * @returns The dereferenced schema
+ */
+export function dereferenceSchema(
+  spec: OpenAPISpec,
+  schema: OpenAPISchema | OpenAPIReference | undefined
+): OpenAPISchema {
+  return (
+    inlineReferences(spec, schema, {
+      seen: [],
+      cutAt: Infinity,
+      depthLimited: false,
+    }) ?? {}
+  )
+}
+
+/**
+ * Gets the parameters of an operation with references resolved: path-level
+ * parameters first, overridden by operation parameters with the same name
+ * and location, and parameter schemas dereferenced
+ * @param spec - The OpenAPI specification of the operation
+ * @param operation - The OpenAPI operation object
+ * @param pathItem - The path item of the operation, for path-level parameters
+ * @returns The resolved parameters; unresolvable references are left out
+ */
+export function resolveOperationParameters(
+  spec: OpenAPISpec,
+  operation: OpenAPIOperation | undefined,
+  pathItem?: OpenAPIPathItem
+): OpenAPIParameter[] {
+  const parameters = new Map<string, OpenAPIParameter>()
+
+  for (const entry of [
+    ...(Array.isArray(pathItem?.parameters) ? pathItem!.parameters : []),
+    ...(Array.isArray(operation?.parameters) ? operation!.parameters : []),
+  ]) {
+    const parameter = resolveReference<OpenAPIParameter>(spec, entry)
+
+    if (!parameter?.name || !parameter.in) {
+      continue
+    }
+
+    parameters.set(`${parameter.in}:${parameter.name}`, {
+      ...parameter,
+      ...(parameter.schema
+        ? { schema: dereferenceSchema(spec, parameter.schema) }
+        : {}),
+      ...(parameter.content
+        ? { content: dereferenceContent(spec, parameter.content) }
+        : {}),
+    })
+  }
+
+  return Array.from(parameters.values())
+}
+
+/**
+ * Gets the request body of an operation with references resolved and media
+ * type schemas dereferenced
+ * @returns The request body, or undefined if the operation has none
+ */
+export function resolveRequestBody(
+  spec: OpenAPISpec,
+  operation: OpenAPIOperation | undefined
+): OpenAPIRequestBody | undefined {
+  const requestBody = resolveReference<OpenAPIRequestBody>(
+    spec,
+    operation?.requestBody
+  )
+
+  if (!requestBody) {
+    return undefined
+  }
+
+  return {
+    ...requestBody,
+    content: dereferenceContent(spec, requestBody.content ?? {}),
+  }
+}
+
+/**
+ * Gets a response with references resolved and media type schemas
+ * dereferenced
+ * @returns The response, or undefined for unresolvable references
+ */
+export function resolveResponse(
+  spec: OpenAPISpec,
+  response: OpenAPIResponse | OpenAPIReference | undefined
+): OpenAPIResponse | undefined {
+  const resolved = resolveReference<OpenAPIResponse>(spec, response)
+
+  if (!resolved) {
+    return undefined
+  }
+
+  return resolved.content
+    ? { ...resolved, content: dereferenceContent(spec, resolved.content) }
+    : resolved
+}
+
+/**
+ * Dereferences the schemas of a content map (media type -> media type object)
+ */
+function dereferenceContent(
+  spec: OpenAPISpec,
+  content: Record<string, any>
+): Record<string, any> {
+  const dereferenced: Record<string, any> = {}
+
+  for (const [mediaType, mediaTypeObject] of Object.entries(content)) {
+    dereferenced[mediaType] = mediaTypeObject?.schema
+      ? {
+          ...mediaTypeObject,
+          schema: dereferenceSchema(spec, mediaTypeObject.schema),
+        }
+      : mediaTypeObject
+  }
+
+  return dereferenced
+}
+
+/**
+ * Walks a schema inlining references
+ */
+function inlineReferences(spec: OpenAPISpec, node: any, walk: InlineWalk): any {
+  if (Array.isArray(node)) {
+    return node.map((item) => inlineReferences(spec, item, walk))
+  }
+
+  if (!node || typeof node !== 'object') {
+    return node
+  }
+
+  if (typeof node.$ref === 'string') {
+    const { $ref, ...siblings } = node
+    const target = inlineReference(spec, $ref, walk)
+
+    if (!target || Object.keys(siblings).length === 0) {
+      return target ?? {}
+    }
+
+    return { ...target, ...inlineReferences(spec, siblings, walk) }
+  }
+
+  const inlined: Record<string, any> = {}
+
+  for (const [key, value] of Object.entries(node)) {
+    inlined[key] = inlineReferences(spec, value, walk)
+  }
+
+  return inlined
+}
+
+/**
+ * Inlines the target of a reference, reusing the result of an earlier walk.
+ * Results of walks cut by a cycle above the reference aren't kept, since they
+ * depend on the branch the reference was found on; results cut at
+ * MAX_REF_DEPTH are kept by depth.
+ * @returns The inlined target, or undefined when the branch is cut
+ */
+function inlineReference(
+  spec: OpenAPISpec,
+  ref: string,
+  walk: InlineWalk
+): any {
+  const position = walk.seen.indexOf(ref)
+  const depth = walk.seen.length
+
+  if (position !== -1) {
+    walk.cutAt = Math.min(walk.cutAt, position)
+
+    return undefined
+  }
+
+  if (depth >= MAX_REF_DEPTH) {
+    walk.depthLimited = true
+
+    return undefined
+  }
+
+  let refs = dereferencedRefs.get(spec)
+
+  if (!refs) {
+    refs = new Map()
+    dereferencedRefs.set(spec, refs)
+  }
+
+  const depthKey = `${depth}:${ref}`
+
+  if (refs.has(ref) || refs.has(depthKey)) {
+    return refs.get(ref) ?? refs.get(depthKey)
+  }
+
+  const target = resolvePointer(spec, ref)
+
+  if (!target || typeof target !== 'object') {
+    return undefined
+  }
+
+  const outer = { cutAt: walk.cutAt, depthLimited: walk.depthLimited }
+
+  walk.seen.push(ref)
+  walk.cutAt = Infinity
+  walk.depthLimited = false
+
+  const inlined = inlineReferences(spec, target, walk)
+
+  walk.seen.pop()
+
+  if (walk.cutAt >= depth) {
+    refs.set(walk.depthLimited ? depthKey : ref, inlined)
+  }
+
+  walk.cutAt = Math.min(outer.cutAt, walk.cutAt)
+  walk.depthLimited = outer.depthLimited || walk.depthLimited
+
+  return inlined
+}
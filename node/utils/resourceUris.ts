@@ -0,0 +1,140 @@
+/**
+ * Utility functions for building and parsing MCP resource URIs
+ */
+
+import type { MCPResourceTemplate } from '../types/mcp-protocol'
+
+export type ParsedResourceUri =
+  | { kind: 'api-spec'; group: string }
+  | { kind: 'api-operation'; group: string; operationId: string }
+  | { kind: 'api-schema'; group: string; schemaName: string }
+
+const SCHEME = 'vtex://'
+
+// Prefix of the API group URIs issued before group names were encoded
+const LEGACY_API_SPEC_PREFIX = `${SCHEME}api-spec/`
+
+/**
+ * Resource templates advertised through resources/templates/list
+ */
+export const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: 'vtex://api-spec/{group}',
+    name: 'api-spec',
+    title: 'API group operations',
+    description:
+      'List of the operations (path, method, operationId and description) of a VTEX API group',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'vtex://api-operation/{group}/{operationId}',
+    name: 'api-operation',
+    title: 'API operation',
+    description:
+      'OpenAPI definition of a single operation of a VTEX API group, including its path and method',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'vtex://api-schema/{group}/{schemaName}',
+    name: 'api-schema',
+    title: 'API component schema',
+    description:
+      'A schema from the components section of the OpenAPI specification of a VTEX API group',
+    mimeType: 'application/json',
+  },
+]
+
+/**
+ * Builds the URI of an API group resource
+ */
+export function buildApiSpecUri(group: string): string {
+  return `${SCHEME}api-spec/${encodeURIComponent(group)}`
+}
+
+/**
+ * Builds the URI of a single operation resource
+ */
+export function buildApiOperationUri(
+  group: string,
+  operationId: string
+): string {
+  return `${SCHEME}api-operation/${encodeURIComponent(
+    group
+  )}/${encodeURIComponent(operationId)}`
+}
+
+/**
+ * Builds the URI of a component schema resource
+ */
+export function buildApiSchemaUri(group: string, schemaName: string): string {
+  return `${SCHEME}api-schema/${encodeURIComponent(group)}/${encodeURIComponent(
+    schemaName
+  )}`
+}
+
+/**
+ * Parses a resource URI matching one of the resource templates
+ * @param uri - The URI received on resources/read
+ * @returns The parsed URI, or null if it does not match any template
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  if (!uri.startsWith(SCHEME)) {
+    return null
+  }
+
+  const [kind, ...rawSegments] = uri.slice(SCHEME.length).split('/')
+  let segments: string[]
+
+  try {
+    segments = rawSegments.map((segment) => decodeURIComponent(segment))
+  } catch {
+    return null
+  }
+
+  if (segments.some((segment) => !segment)) {
+    return null
+  }
+
+  if (kind === 'api-spec' && segments.length === 1) {
+    return { kind, group: segments[0] }
+  }
+
+  if (kind === 'api-operation' && segments.length === 2) {
+    return { kind, group: segments[0], operationId: segments[1] }
+  }
+
+  if (kind === 'api-schema' && segments.length === 2) {
+    return { kind, group: segments[0], schemaName: segments[1] }
+  }
+
+  return null
+}
+
+/**
+ * Parses a resource URI in the current encoding and in the one issued before
+ * group names were percent-encoded, vtex://api-spec/ followed by the raw
+ * group name. Clients may still hold URIs of the old encoding.
+ * @param uri - The URI received on resources/read or resources/subscribe
+ * @returns The distinct readings of the URI, the current encoding first
+ */
+export function parseResourceUriVariants(uri: string): ParsedResourceUri[] {
+  const variants: ParsedResourceUri[] = []
+  const parsed = parseResourceUri(uri)
+
+  if (parsed) {
+    variants.push(parsed)
+  }
+
+  const legacyGroup = uri.startsWith(LEGACY_API_SPEC_PREFIX)
+    ? uri.slice(LEGACY_API_SPEC_PREFIX.length)
+    : ''
+
+  if (
+    legacyGroup &&
+    !(parsed?.kind === 'api-spec' && parsed.group === legacyGroup)
+  ) {
+    variants.push({ kind: 'api-spec', group: legacyGroup })
+  }
+
+  return variants
+}
@@ -0,0 +1,451 @@
+/**
+ * Utility functions for validating values, such as request bodies, against
+ * the JSON Schemas of OpenAPI specifications. Schemas are expected to be
+ * dereferenced (see refResolver.dereferenceSchema).
+ */
+
+import type { OpenAPISchema } from '../types/openapi'
+
+export interface SchemaValidationError {
+  // Location of the invalid value, e.g. $.items[0].quantity
+  path: string
+  message: string
+}
+
+// Errors reported at most, so a wrong body doesn't flood the response
+const MAX_ERRORS = 20
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time':
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  hostname:
+    /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i,
+  byte: /^[A-Za-z0-9+/]*={0,2}$/,
+}
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  int32: [-2147483648, 2147483647],
+  int64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+}
+
+/**
+ * Validates a value against a schema. Supports types (with OpenAPI 3.0
+ * nullable), enum, const, formats, string, number and array bounds,
+ * required, properties, additionalProperties, allOf, anyOf, oneOf and not.
+ * Read-only properties are not required, since they aren't sent in requests.
+ * @param schema - The dereferenced schema
+ * @param value - The value to validate
+ * @param path - Location of the value, $ for the root
+ * @returns The validation errors, empty if the value is valid
+ */
+export function validateAgainstSchema(
+  schema: OpenAPISchema | undefined,
+  value: unknown,
+  path = '$'
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = []
+
+  validateValue(schema, value, path, errors)
+
+  return errors.slice(0, MAX_ERRORS)
+}
+
+function validateValue(
+  schema: OpenAPISchema | undefined,
+  value: unknown,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (!schema || typeof schema !== 'object' || errors.length >= MAX_ERRORS) {
+    return
+  }
+
+  const fail = (message: string) => errors.push({ path, message })
+
+  if (value === null && (schema.nullable || allowsType(schema, 'null'))) {
+    return
+  }
+
+  const types = getTypes(schema)
+
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    fail(`must be ${types.join(' or ')}, got ${describeType(value)}`)
+
+    return
+  }
+
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    fail(
+      `must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(', ')}`
+    )
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === 'string') {
+    validateString(schema, value, fail)
+  } else if (typeof value === 'number') {
+    validateNumber(schema, value, fail)
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, errors)
+  } else if (value && typeof value === 'object') {
+    validateObject(schema, value as Record<string, unknown>, path, errors)
+  }
+
+  validateComposition(schema, value, path, errors)
+}
+
+function validateString(
+  schema: OpenAPISchema,
+  value: string,
+  fail: (message: string) => void
+): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(`must have at least ${schema.minLength} characters`)
+  }
+
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    fail(`must have at most ${schema.maxLength} characters`)
+  }
+
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) {
+        fail(`must match the pattern ${schema.pattern}`)
+      }
+    } catch (_) {
+      // Patterns JavaScript can't compile are not checked
+    }
+  }
+
+  const formatPattern = schema.format ? FORMAT_PATTERNS[schema.format] : null
+
+  if (formatPattern && !formatPattern.test(value)) {
+    fail(`must be a valid ${schema.format}`)
+  } else if (schema.format === 'uri' && !isUri(value)) {
+    fail('must be a valid uri')
+  }
+}
+
+function validateNumber(
+  schema: OpenAPISchema,
+  value: number,
+  fail: (message: string) => void
+): void {
+  const exclusiveMinimum = schema.exclusiveMinimum as number | boolean
+  const exclusiveMaximum = schema.exclusiveMaximum as number | boolean
+
+  // OpenAPI 3.0 has boolean exclusive bounds, OpenAPI 3.1 numeric ones
+  if (schema.minimum !== undefined) {
+    if (
+      exclusiveMinimum === true
+        ? value <= schema.minimum
+        : value < schema.minimum
+    ) {
+      fail(
+        `must be ${exclusiveMinimum === true ? 'greater than' : 'at least'} ${
+          schema.minimum
+        }`
+      )
+    }
+  }
+
+  if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+    fail(`must be greater than ${exclusiveMinimum}`)
+  }
+
+  if (schema.maximum !== undefined) {
+    if (
+      exclusiveMaximum === true
+        ? value >= schema.maximum
+        : value > schema.maximum
+    ) {
+      fail(
+        `must be ${exclusiveMaximum === true ? 'less than' : 'at most'} ${
+          schema.maximum
+        }`
+      )
+    }
+  }
+
+  if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+    fail(`must be less than ${exclusiveMaximum}`)
+  }
+
+  if (
+    schema.multipleOf &&
+    !Number.isInteger(Number((value / schema.multipleOf).toFixed(10)))
+  ) {
+    fail(`must be a multiple of ${schema.multipleOf}`)
+  }
+
+  const range = schema.format ? INTEGER_RANGES[schema.format] : undefined
+
+  if (range && (value < range[0] || value > range[1])) {
+    fail(`must be a valid ${schema.format}`)
+  }
+}
+
+function validateArray(
+  schema: OpenAPISchema,
+  value: unknown[],
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({
+      path,
+      message: `must have at least ${schema.minItems} items`,
+    })
+  }
+
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} items` })
+  }
+
+  if (
+    schema.uniqueItems &&
+    value.some((item, index) =>
+      value.slice(0, index).some((previous) => isEqual(previous, item))
+    )
+  ) {
+    errors.push({ path, message: 'must not have duplicate items' })
+  }
+
+  if (schema.items && typeof schema.items === 'object') {
+    value.forEach((item, index) =>
+      validateValue(
+        schema.items as OpenAPISchema,
+        item,
+        `${path}[${index}]`,
+        errors
+      )
+    )
+  }
+}
+
+function validateObject(
+  schema: OpenAPISchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  const properties = (schema.properties ?? {}) as Record<string, OpenAPISchema>
+  const keys = Object.keys(value)
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined && !properties[name]?.readOnly) {
+      errors.push({
+        path: joinPath(path, name),
+        message: 'is required',
+      })
+    }
+  }
+
+  if (
+    schema.minProperties !== undefined &&
+    keys.length < schema.minProperties
+  ) {
+    errors.push({
+      path,
+      message: `must have at least ${schema.minProperties} properties`,
+    })
+  }
+
+  if (
+    schema.maxProperties !== undefined &&
+    keys.length > schema.maxProperties
+  ) {
+    errors.push({
+      path,
+      message: `must have at most ${schema.maxProperties} properties`,
+    })
+  }
+
+  for (const key of keys) {
+    if (value[key] === undefined) {
+      continue
+    }
+
+    if (properties[key]) {
+      validateValue(properties[key], value[key], joinPath(path, key), errors)
+    } else if (schema.additionalProperties === false) {
+      errors.push({
+        path: joinPath(path, key),
+        message: 'is not an allowed property',
+      })
+    } else if (
+      schema.additionalProperties &&
+      typeof schema.additionalProperties === 'object'
+    ) {
+      validateValue(
+        schema.additionalProperties as OpenAPISchema,
+        value[key],
+        joinPath(path, key),
+        errors
+      )
+    }
+  }
+}
+
+/**
+ * allOf, anyOf, oneOf and not. For anyOf and oneOf without a match, the
+ * errors of the closest alternative are reported.
+ */
+function validateComposition(
+  schema: OpenAPISchema,
+  value: unknown,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  for (const member of (schema.allOf ?? []) as OpenAPISchema[]) {
+    validateValue(member, value, path, errors)
+  }
+
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const alternatives = (schema[keyword] ?? []) as OpenAPISchema[]
+
+    if (alternatives.length === 0) {
+      continue
+    }
+
+    const results = alternatives.map((alternative) =>
+      validateAgainstSchema(alternative, value, path)
+    )
+
+    const matches = results.filter((result) => result.length === 0).length
+
+    if (matches === 0) {
+      const closest = results.reduce((best, result) =>
+        result.length < best.length ? result : best
+      )
+
+      errors.push(
+        {
+          path,
+          message: `must match ${
+            keyword === 'oneOf' ? 'exactly one' : 'at least one'
+          } of the ${alternatives.length} allowed schemas`,
+        },
+        ...closest
+      )
+    } else if (keyword === 'oneOf' && matches > 1) {
+      errors.push({
+        path,
+        message: `must match exactly one of the allowed schemas, but matches ${matches}`,
+      })
+    }
+  }
+
+  if (
+    schema.not &&
+    validateAgainstSchema(schema.not as OpenAPISchema, value, path).length === 0
+  ) {
+    errors.push({ path, message: 'must not match the disallowed schema' })
+  }
+}
+
+/**
+ * The types a schema allows: its type, or the OpenAPI 3.1 type list
+ */
+function getTypes(schema: OpenAPISchema): string[] {
+  const type = schema.type as string | string[] | undefined
+
+  if (!type) {
+    return []
+  }
+
+  return (Array.isArray(type) ? type : [type]).filter((t) => t !== 'null')
+}
+
+function allowsType(schema: OpenAPISchema, type: string): boolean {
+  const types = schema.type as string | string[] | undefined
+
+  return Array.isArray(types) ? types.includes(type) : types === type
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+
+    case 'array':
+      return Array.isArray(value)
+
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value)
+
+    default:
+      return typeof value === type
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer'
+  }
+
+  return typeof value
+}
+
+function isUri(value: string): boolean {
+  try {
+    return !!new URL(value).protocol
+  } catch (_) {
+    return false
+  }
+}
+
+/**
+ * Deep equality of JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return false
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) => isEqual((a as any)[key], (b as any)[key]))
+  )
+}
+
+/**
+ * Appends a property to a path: $.name, or $["odd name"]
+ */
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`
+}
@@ -0,0 +1,152 @@
+/**
+ * Resolution of the host each OpenAPI operation is sent to, from the servers
+ * of the specification, and of the hosts the app is allowed to call
+ */
+
+import type {
+  OpenAPIOperation,
+  OpenAPIPathItem,
+  OpenAPIServer,
+  OpenAPISpec,
+} from '../types/openapi'
+
+export interface OutboundAccessPolicy {
+  // Host pattern, where {{account}} is the account name and * any text
+  host: string
+  // Path pattern, where * is any text
+  path: string
+}
+
+// The outbound-access policies of manifest.json, which isn't deployed with
+// the node service. The serverResolver tests fail when the lists differ.
+export const OUTBOUND_ACCESS_POLICIES: OutboundAccessPolicy[] = [
+  { host: '*', path: '/api/*' },
+  { host: '{{account}}.vtexcommercestable.com.br', path: '/api/*' },
+  { host: '{{account}}.myvtex.com', path: '/_v/*' },
+  { host: 'infra.io.vtex.com', path: '*' },
+  { host: 'fulfillment.vtexcommerce.com.br', path: '/api/*' },
+  { host: 'portal.vtexcommercestable.com.br', path: '/api/*' },
+  { host: 'api.vtex.com', path: '/api/dataentities/*' },
+]
+
+// Domains of the hosts VTEX runs, the only ones sent the credentials of the
+// account
+const VTEX_DOMAINS = [
+  'vtexcommercestable.com.br',
+  'vtexcommerce.com.br',
+  'myvtex.com',
+  'vtex.com',
+]
+
+// Values of server variables the specification declares without a default
+const DEFAULT_VARIABLES: Record<string, string> = {
+  environment: 'vtexcommercestable',
+}
+
+/**
+ * Selects the server of an operation: the first server of the operation, or
+ * else of its path item, or else of the specification
+ * @returns The server, or undefined if none is declared
+ */
+export function selectServer(
+  spec: OpenAPISpec,
+  operation?: OpenAPIOperation,
+  pathItem?: OpenAPIPathItem
+): OpenAPIServer | undefined {
+  for (const servers of [operation?.servers, pathItem?.servers, spec.servers]) {
+    const server = Array.isArray(servers)
+      ? servers.find((item) => typeof item?.url === 'string')
+      : undefined
+
+    if (server) {
+      return server
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Resolves the URL of a server, replacing its variables ({accountName},
+ * {environment}...) by the given values, or else by their defaults
+ * @param server - The OpenAPI server
+ * @param values - Values of variables, overriding the declared defaults
+ * @param defaultBaseURL - Base of relative server URLs, e.g. /api/catalog
+ * @returns The absolute URL, without trailing slash
+ * @throws Error when a variable has no value or the URL is invalid
+ */
+export function resolveServerURL(
+  server: OpenAPIServer,
+  values: Record<string, string>,
+  defaultBaseURL: string
+): string {
+  const resolved = server.url.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const value =
+      values[name] ??
+      server.variables?.[name]?.default ??
+      DEFAULT_VARIABLES[name]
+
+    if (value === undefined) {
+      throw new Error(
+        `Server variable '${name}' of '${server.url}' has no value`
+      )
+    }
+
+    return value
+  })
+
+  let url: URL
+
+  try {
+    url = new URL(resolved, defaultBaseURL)
+  } catch {
+    throw new Error(`Server URL '${resolved}' is invalid`)
+  }
+
+  return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`
+}
+
+/**
+ * Checks whether a host and path are allowed by an outbound-access policy.
+ * Dot segments of the path are resolved first, so /api/../x is checked as /x.
+ * @param host - The host, without port
+ * @param path - The path, without query
+ * @param account - The account name, for {{account}} hosts
+ */
+export function isOutboundAccessAllowed(
+  host: string,
+  path: string,
+  account: string
+): boolean {
+  const { pathname } = new URL(path, 'http://localhost')
+
+  return OUTBOUND_ACCESS_POLICIES.some(
+    (policy) =>
+      toPattern(policy.host.replace(/\{\{account\}\}/g, account), 'i').test(
+        host
+      ) && toPattern(policy.path).test(pathname)
+  )
+}
+
+/**
+ * Checks whether a host is run by VTEX, i.e. a subdomain of VTEX_DOMAINS
+ * @param host - The host, without port
+ */
+export function isVTEXHost(host: string): boolean {
+  const normalizedHost = host.toLowerCase()
+
+  return VTEX_DOMAINS.some(
+    (domain) =>
+      normalizedHost === domain || normalizedHost.endsWith(`.${domain}`)
+  )
+}
+
+// Matches the whole text, * being any text
+function toPattern(glob: string, flags?: string): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${source}$`, flags)
+}
@@ -0,0 +1,130 @@
+/**
+ * Utility functions for parsing OpenAPI documents published as JSON or YAML
+ */
+
+import { CORE_SCHEMA, JSON_SCHEMA, load, YAMLException } from 'js-yaml'
+
+export type SpecFormat = 'json' | 'yaml'
+
+/**
+ * Detects the format of a specification document, from the content type
+ * when it names one, otherwise from the first character of the document
+ * @param content - The document text
+ * @param contentType - The Content-Type header of the response, if any
+ * @returns The format of the document
+ */
+export function detectSpecFormat(
+  content: string,
+  contentType?: string
+): SpecFormat {
+  const type = (contentType ?? '').toLowerCase()
+
+  if (type.includes('yaml') || type.includes('yml')) {
+    return 'yaml'
+  }
+
+  if (type.includes('json')) {
+    return 'json'
+  }
+
+  return /^\s*[{[]/.test(content) ? 'json' : 'yaml'
+}
+
+/**
+ * Parses a specification document into an object. Documents already parsed
+ * by the HTTP client are returned as they are.
+ * @param content - The document text, or the parsed document
+ * @param contentType - The Content-Type header of the response, if any
+ * @returns The parsed document, to be validated as an OpenAPI specification
+ * @throws Error with the line and column of the problem for malformed documents
+ */
+export function parseSpecDocument(
+  content: unknown,
+  contentType?: string
+): unknown {
+  if (Buffer.isBuffer(content)) {
+    content = content.toString('utf8')
+  }
+
+  if (typeof content !== 'string') {
+    return content
+  }
+
+  // A byte order mark is not part of the document
+  const text = content.replace(/^\uFEFF/, '')
+
+  if (!text.trim()) {
+    throw new Error('Invalid specification: the document is empty')
+  }
+
+  return detectSpecFormat(text, contentType) === 'json'
+    ? parseJson(text)
+    : parseYaml(text)
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    const position = /at position (\d+)/.exec(error.message)
+    const location = position
+      ? getLineAndColumn(text, Number(position[1]))
+      : locateWithYamlParser(text)
+
+    throw new Error(
+      location
+        ? `Invalid JSON specification at line ${location.line}, column ${location.column}: ${error.message}`
+        : `Invalid JSON specification: ${error.message}`
+    )
+  }
+}
+
+function parseYaml(text: string): unknown {
+  try {
+    // The core schema keeps dates and other YAML-only types as strings
+    return load(text, { schema: CORE_SCHEMA })
+  } catch (error) {
+    if (error instanceof YAMLException && error.mark) {
+      throw new Error(
+        `Invalid YAML specification at line ${error.mark.line + 1}, column ${
+          error.mark.column + 1
+        }: ${error.reason}`
+      )
+    }
+
+    throw new Error(`Invalid YAML specification: ${error.message}`)
+  }
+}
+
+/**
+ * Finds where a JSON document is malformed when JSON.parse doesn't tell the
+ * position, with the YAML parser (JSON is a subset of YAML)
+ */
+function locateWithYamlParser(
+  text: string
+): { line: number; column: number } | undefined {
+  try {
+    load(text, { schema: JSON_SCHEMA })
+  } catch (error) {
+    if (error instanceof YAMLException && error.mark) {
+      return { line: error.mark.line + 1, column: error.mark.column + 1 }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Converts a character offset into 1-based line and column numbers
+ */
+function getLineAndColumn(
+  text: string,
+  offset: number
+): { line: number; column: number } {
+  const lines = text.slice(0, offset).split('\n')
+
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  }
+}
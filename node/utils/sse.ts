@@ -0,0 +1,88 @@
+import { PassThrough } from 'stream'
+
+/**
+ * Utility functions for Server-Sent Events (SSE) used by the MCP
+ * Streamable HTTP transport
+ */
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream'
+
+/**
+ * Checks if the client accepts Server-Sent Events responses
+ * @param ctx - The request context
+ * @returns True if the Accept header includes text/event-stream
+ */
+export function acceptsEventStream(ctx: Context): boolean {
+  const accept = (ctx.get('accept') || '').toLowerCase()
+
+  return accept.includes(EVENT_STREAM_CONTENT_TYPE)
+}
+
+/**
+ * Switches the response to an SSE stream and returns the writable stream
+ * @param ctx - The request context
+ * @returns The stream that events must be written to
+ */
+export function openEventStream(ctx: Context): PassThrough {
+  const stream = new PassThrough()
+
+  ctx.status = 200
+  ctx.set('Content-Type', EVENT_STREAM_CONTENT_TYPE)
+  ctx.set('Cache-Control', 'no-cache, no-transform')
+  ctx.set('Connection', 'keep-alive')
+  ctx.set('X-Accel-Buffering', 'no')
+
+  // Compression buffers the response, which would hold events back
+  ;(ctx as any).compress = false
+
+  ctx.body = stream
+
+  return stream
+}
+
+/**
+ * Checks if an event stream can still be written to
+ * @param stream - The event stream
+ * @returns True if the stream is open
+ */
+export function isEventStreamOpen(stream: PassThrough | undefined): boolean {
+  return !!stream && !stream.destroyed && !stream.writableEnded
+}
+
+/**
+ * Writes a JSON-RPC message as an SSE `message` event
+ * @param stream - The event stream
+ * @param message - The JSON-RPC message to send
+ * @returns True if the event was written
+ */
+export function writeEvent(stream: PassThrough, message: unknown): boolean {
+  if (!isEventStreamOpen(stream)) {
+    return false
+  }
+
+  stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`)
+
+  return true
+}
+
+/**
+ * Writes an SSE comment line, used as keep-alive
+ * @param stream - The event stream
+ * @param comment - The comment text
+ */
+export function writeComment(stream: PassThrough, comment: string): void {
+  if (isEventStreamOpen(stream)) {
+    stream.write(`: ${comment}\n\n`)
+  }
+}
+
+/**
+ * Tells the client how long to wait before reconnecting a closed stream
+ * @param stream - The event stream
+ * @param retryMs - The reconnection delay in milliseconds
+ */
+export function writeRetry(stream: PassThrough, retryMs: number): void {
+  if (isEventStreamOpen(stream)) {
+    stream.write(`retry: ${retryMs}\n\n`)
+  }
+}
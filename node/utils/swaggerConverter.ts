@@ -0,0 +1,664 @@
+/**
+ * Utility functions for converting Swagger 2.0 specifications to the
+ * OpenAPI 3 shape used by the executor, tools and resources
+ */
+
+import type {
+  OpenAPIComponents,
+  OpenAPIMediaType,
+  OpenAPIOperation,
+  OpenAPIParameter,
+  OpenAPIPathItem,
+  OpenAPIRequestBody,
+  OpenAPIResponse,
+  OpenAPISchema,
+  OpenAPISecurityScheme,
+  OpenAPIServer,
+  OpenAPISpec,
+  Swagger2Spec,
+} from '../types/openapi'
+
+// OpenAPI version of converted specifications
+const CONVERTED_OPENAPI_VERSION = '3.0.3'
+
+// Media type assumed when the spec declares no consumes/produces
+const DEFAULT_MEDIA_TYPE = 'application/json'
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+]
+
+// Schema keywords a Swagger 2.0 non-body parameter carries inline
+const PARAMETER_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+]
+
+/**
+ * Checks if a parsed document is a Swagger 2.0 specification
+ */
+export function isSwagger2Spec(document: any): document is Swagger2Spec {
+  return (
+    !!document &&
+    typeof document === 'object' &&
+    document.swagger !== undefined &&
+    String(document.swagger).startsWith('2')
+  )
+}
+
+/**
+ * Converts a Swagger 2.0 specification to OpenAPI 3:
+ * - host, basePath and schemes become servers
+ * - definitions, parameters, responses and securityDefinitions move to
+ *   components, and references are rewritten accordingly
+ * - body and formData parameters become request bodies, with one media type
+ *   per consumes entry
+ * - response schemas get one media type per produces entry
+ * @param swagger - The Swagger 2.0 document
+ * @returns The equivalent OpenAPI 3 specification
+ */
+export function convertSwagger2ToOpenAPI(swagger: Swagger2Spec): OpenAPISpec {
+  const consumes = swagger.consumes?.length
+    ? swagger.consumes
+    : [DEFAULT_MEDIA_TYPE]
+
+  const produces = swagger.produces?.length
+    ? swagger.produces
+    : [DEFAULT_MEDIA_TYPE]
+
+  const converter = new SwaggerConverter(swagger)
+
+  const spec: OpenAPISpec = {
+    openapi: CONVERTED_OPENAPI_VERSION,
+    info: {
+      ...swagger.info,
+      // Unquoted YAML versions (version: 1.0) are parsed as numbers
+      version: String(swagger.info?.version ?? ''),
+    },
+    servers: convertServers(swagger),
+    paths: {},
+    components: converter.convertComponents(consumes, produces),
+  }
+
+  if (swagger.security) spec.security = swagger.security
+  if (swagger.tags) spec.tags = swagger.tags
+  if (swagger.externalDocs) spec.externalDocs = swagger.externalDocs
+
+  for (const [path, pathItem] of Object.entries(swagger.paths ?? {})) {
+    spec.paths[path] = converter.convertPathItem(pathItem, consumes, produces)
+  }
+
+  return rewriteReferences(spec, collectBodyParameterRefs(spec)) as OpenAPISpec
+}
+
+/**
+ * Builds the servers from host, basePath and schemes. Without a host, the
+ * server URL is relative to where the spec is served.
+ */
+function convertServers(swagger: Swagger2Spec): OpenAPIServer[] {
+  const basePath = swagger.basePath ?? ''
+
+  if (!swagger.host) {
+    return [{ url: basePath || '/' }]
+  }
+
+  const schemes = swagger.schemes?.length ? swagger.schemes : ['https']
+
+  return schemes.map((scheme) => ({
+    url: `${scheme}://${swagger.host}${basePath}`,
+  }))
+}
+
+class SwaggerConverter {
+  constructor(private swagger: Swagger2Spec) {}
+
+  public convertComponents(
+    consumes: string[],
+    produces: string[]
+  ): OpenAPIComponents {
+    const components: OpenAPIComponents = {}
+
+    if (this.swagger.definitions) {
+      components.schemas = mapValues(this.swagger.definitions, convertSchema)
+    }
+
+    // Reusable body parameters are request bodies in OpenAPI 3
+    for (const [name, parameter] of Object.entries<any>(
+      this.swagger.parameters ?? {}
+    )) {
+      if (parameter?.in === 'body') {
+        components.requestBodies = {
+          ...components.requestBodies,
+          [name]: convertBodyParameter(parameter, consumes),
+        }
+      } else if (parameter?.in !== 'formData') {
+        components.parameters = {
+          ...components.parameters,
+          [name]: convertParameter(parameter),
+        }
+      }
+    }
+
+    if (this.swagger.responses) {
+      components.responses = mapValues(this.swagger.responses, (response) =>
+        convertResponse(response, produces)
+      )
+    }
+
+    if (this.swagger.securityDefinitions) {
+      components.securitySchemes = mapValues(
+        this.swagger.securityDefinitions,
+        convertSecurityScheme
+      )
+    }
+
+    return components
+  }
+
+  public convertPathItem(
+    pathItem: Record<string, any>,
+    consumes: string[],
+    produces: string[]
+  ): OpenAPIPathItem {
+    const converted: OpenAPIPathItem = {}
+
+    // Path-level body and formData parameters apply to each operation
+    const pathParameters: any[] = pathItem.parameters ?? []
+
+    const sharedParameters = pathParameters.filter(
+      (parameter) => !this.isBodyOrFormData(parameter)
+    )
+
+    if (sharedParameters.length > 0) {
+      converted.parameters = sharedParameters.map((parameter) =>
+        this.convertParameterOrReference(parameter)
+      )
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method]
+
+      if (!operation || typeof operation !== 'object') {
+        continue
+      }
+
+      ;(converted as any)[method] = this.convertOperation(
+        operation,
+        pathParameters.filter((parameter) => this.isBodyOrFormData(parameter)),
+        operation.consumes?.length ? operation.consumes : consumes,
+        operation.produces?.length ? operation.produces : produces
+      )
+    }
+
+    if (pathItem.summary) converted.summary = pathItem.summary
+    if (pathItem.description) converted.description = pathItem.description
+
+    return converted
+  }
+
+  private convertOperation(
+    operation: Record<string, any>,
+    pathBodyParameters: any[],
+    consumes: string[],
+    produces: string[]
+  ): OpenAPIOperation {
+    const {
+      parameters = [],
+      responses = {},
+      consumes: _consumes,
+      produces: _produces,
+      schemes: _schemes,
+      ...rest
+    } = operation
+
+    const converted: OpenAPIOperation = {
+      ...rest,
+      operationId: operation.operationId,
+      responses: mapValues(responses, (response) =>
+        convertResponse(response, produces)
+      ),
+    }
+
+    const operationParameters: any[] = parameters
+    const bodyParameters = [
+      ...pathBodyParameters.filter(
+        (shared) =>
+          !operationParameters.some((own) => this.isSameParameter(own, shared))
+      ),
+      ...operationParameters.filter((parameter) =>
+        this.isBodyOrFormData(parameter)
+      ),
+    ]
+
+    const otherParameters = operationParameters.filter(
+      (parameter) => !this.isBodyOrFormData(parameter)
+    )
+
+    if (otherParameters.length > 0) {
+      converted.parameters = otherParameters.map((parameter) =>
+        this.convertParameterOrReference(parameter)
+      )
+    }
+
+    const requestBody = this.convertRequestBody(bodyParameters, consumes)
+
+    if (requestBody) {
+      converted.requestBody = requestBody
+    }
+
+    return converted
+  }
+
+  /**
+   * Builds the request body from the body parameter, or from the formData
+   * parameters as the properties of a form schema
+   */
+  private convertRequestBody(
+    parameters: any[],
+    consumes: string[]
+  ): OpenAPIRequestBody | { $ref: string } | undefined {
+    const body = parameters.find(
+      (parameter) => this.resolveParameter(parameter)?.in === 'body'
+    )
+
+    if (body) {
+      // Reusable body parameters were moved to components.requestBodies
+      if (body.$ref) {
+        return { $ref: body.$ref }
+      }
+
+      return convertBodyParameter(body, consumes)
+    }
+
+    const formParameters = parameters
+      .map((parameter) => this.resolveParameter(parameter))
+      .filter((parameter) => parameter?.in === 'formData')
+
+    if (formParameters.length === 0) {
+      return undefined
+    }
+
+    const properties: Record<string, OpenAPISchema> = {}
+    const required: string[] = []
+
+    for (const parameter of formParameters) {
+      properties[parameter.name] = {
+        ...convertParameterSchema(parameter),
+        ...(parameter.description
+          ? { description: parameter.description }
+          : {}),
+      }
+
+      if (parameter.required) {
+        required.push(parameter.name)
+      }
+    }
+
+    const hasFile = formParameters.some(
+      (parameter) => parameter.type === 'file'
+    )
+
+    const formTypes = consumes.filter(
+      (type) =>
+        type.startsWith('multipart/form-data') ||
+        type.startsWith('application/x-www-form-urlencoded')
+    )
+
+    const mediaTypes = formTypes.length
+      ? formTypes
+      : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded']
+
+    const schema: OpenAPISchema = {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    }
+
+    return {
+      content: Object.fromEntries(mediaTypes.map((type) => [type, { schema }])),
+      ...(required.length > 0 ? { required: true } : {}),
+    }
+  }
+
+  private convertParameterOrReference(
+    parameter: any
+  ): OpenAPIParameter | { $ref: string } {
+    return parameter?.$ref
+      ? { $ref: parameter.$ref }
+      : convertParameter(parameter)
+  }
+
+  /**
+   * Resolves #/parameters/ references of the Swagger document
+   */
+  private resolveParameter(parameter: any): any {
+    const ref: unknown = parameter?.$ref
+
+    if (typeof ref === 'string' && ref.startsWith('#/parameters/')) {
+      return this.swagger.parameters?.[
+        decodePointerSegment(ref.slice('#/parameters/'.length))
+      ]
+    }
+
+    return parameter
+  }
+
+  private isBodyOrFormData(parameter: any): boolean {
+    const resolved = this.resolveParameter(parameter)
+
+    return resolved?.in === 'body' || resolved?.in === 'formData'
+  }
+
+  private isSameParameter(a: any, b: any): boolean {
+    const first = this.resolveParameter(a)
+    const second = this.resolveParameter(b)
+
+    return (
+      !!first &&
+      !!second &&
+      first.in === second.in &&
+      (first.in === 'body' || first.name === second.name)
+    )
+  }
+}
+
+function convertParameter(parameter: any): OpenAPIParameter {
+  const converted: OpenAPIParameter = {
+    name: parameter.name,
+    in: parameter.in,
+    schema: convertParameterSchema(parameter),
+  }
+
+  if (parameter.description) converted.description = parameter.description
+  if (parameter.required || parameter.in === 'path') converted.required = true
+  if (parameter.allowEmptyValue) converted.allowEmptyValue = true
+  if (parameter['x-example'] !== undefined) {
+    converted.example = parameter['x-example']
+  }
+
+  Object.assign(
+    converted,
+    convertCollectionFormat(parameter.collectionFormat, parameter.in)
+  )
+
+  return converted
+}
+
+/**
+ * Maps collectionFormat to the equivalent style and explode values
+ */
+function convertCollectionFormat(
+  collectionFormat: string | undefined,
+  location: string
+): Pick<OpenAPIParameter, 'style' | 'explode'> {
+  switch (collectionFormat) {
+    case 'multi':
+      return { style: 'form', explode: true }
+
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false }
+
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false }
+
+    case 'csv':
+    case 'tsv':
+    case undefined:
+      // csv is the Swagger default; OpenAPI has no tab-delimited style
+      return location === 'query' || location === 'cookie'
+        ? { style: 'form', explode: false }
+        : {}
+
+    default:
+      return {}
+  }
+}
+
+/**
+ * Builds the schema of a non-body parameter from its inline keywords
+ */
+function convertParameterSchema(parameter: any): OpenAPISchema {
+  const schema: Record<string, any> = {}
+
+  for (const keyword of PARAMETER_SCHEMA_KEYWORDS) {
+    if (parameter[keyword] !== undefined) {
+      schema[keyword] = parameter[keyword]
+    }
+  }
+
+  return convertSchema(schema)
+}
+
+function convertBodyParameter(
+  parameter: any,
+  consumes: string[]
+): OpenAPIRequestBody {
+  const schema = convertSchema(parameter.schema ?? {})
+  const content: Record<string, OpenAPIMediaType> = {}
+
+  for (const type of consumes) {
+    content[type] = {
+      schema,
+      ...(parameter['x-examples']?.[type] !== undefined
+        ? { example: parameter['x-examples'][type] }
+        : {}),
+    }
+  }
+
+  return {
+    content,
+    ...(parameter.description ? { description: parameter.description } : {}),
+    ...(parameter.required ? { required: true } : {}),
+  }
+}
+
+function convertResponse(
+  response: any,
+  produces: string[]
+): OpenAPIResponse | { $ref: string } {
+  if (response?.$ref) {
+    return { $ref: response.$ref }
+  }
+
+  const converted: OpenAPIResponse = {
+    description: response?.description ?? '',
+  }
+
+  if (response?.schema) {
+    const schema = convertSchema(response.schema)
+
+    converted.content = Object.fromEntries(
+      produces.map((type) => [
+        type,
+        {
+          schema,
+          ...(response.examples?.[type] !== undefined
+            ? { example: response.examples[type] }
+            : {}),
+        },
+      ])
+    )
+  }
+
+  if (response?.headers) {
+    converted.headers = mapValues(response.headers, (header: any) => ({
+      ...(header.description ? { description: header.description } : {}),
+      schema: convertParameterSchema(header),
+    }))
+  }
+
+  return converted
+}
+
+function convertSecurityScheme(scheme: any): OpenAPISecurityScheme {
+  switch (scheme?.type) {
+    case 'basic':
+      return {
+        type: 'http',
+        scheme: 'basic',
+        ...(scheme.description ? { description: scheme.description } : {}),
+      }
+
+    case 'oauth2': {
+      const flow = {
+        ...(scheme.authorizationUrl
+          ? { authorizationUrl: scheme.authorizationUrl }
+          : {}),
+        ...(scheme.tokenUrl ? { tokenUrl: scheme.tokenUrl } : {}),
+        scopes: scheme.scopes ?? {},
+      }
+
+      const flowName =
+        scheme.flow === 'application'
+          ? 'clientCredentials'
+          : scheme.flow === 'accessCode'
+          ? 'authorizationCode'
+          : scheme.flow
+
+      return {
+        type: 'oauth2',
+        ...(scheme.description ? { description: scheme.description } : {}),
+        flows: { [flowName]: flow },
+      }
+    }
+
+    default:
+      return { ...scheme }
+  }
+}
+
+/**
+ * Converts the Swagger-only schema keywords: file types become binary
+ * strings, x-nullable becomes nullable and string discriminators become
+ * discriminator objects
+ */
+function convertSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(convertSchema)
+  }
+
+  if (!schema || typeof schema !== 'object') {
+    return schema
+  }
+
+  const converted: Record<string, any> = {}
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'x-nullable') {
+      converted.nullable = value
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      converted.discriminator = { propertyName: value }
+    } else if (key === 'type' && value === 'file') {
+      converted.type = 'string'
+      converted.format = 'binary'
+    } else if (key === 'example' || key === 'enum' || key === 'default') {
+      converted[key] = value
+    } else if (
+      (key === 'properties' || key === 'patternProperties') &&
+      value &&
+      typeof value === 'object'
+    ) {
+      // Keys are property names, not keywords
+      converted[key] = mapValues(value as Record<string, any>, convertSchema)
+    } else {
+      converted[key] = convertSchema(value)
+    }
+  }
+
+  return converted
+}
+
+/**
+ * Points Swagger references to their OpenAPI 3 locations. Body parameters
+ * were moved to components.requestBodies, the others to
+ * components.parameters.
+ */
+function rewriteReferences(node: any, bodyParameterRefs: Set<string>): any {
+  if (Array.isArray(node)) {
+    return node.map((item) => rewriteReferences(item, bodyParameterRefs))
+  }
+
+  if (!node || typeof node !== 'object') {
+    return node
+  }
+
+  const rewritten: Record<string, any> = {}
+
+  for (const [key, value] of Object.entries(node)) {
+    rewritten[key] =
+      key === '$ref' && typeof value === 'string'
+        ? rewriteReference(value, bodyParameterRefs)
+        : rewriteReferences(value, bodyParameterRefs)
+  }
+
+  return rewritten
+}
+
+function rewriteReference(ref: string, bodyParameterRefs: Set<string>) {
+  if (ref.startsWith('#/definitions/')) {
+    return `#/components/schemas/${ref.slice('#/definitions/'.length)}`
+  }
+
+  if (ref.startsWith('#/parameters/')) {
+    const name = ref.slice('#/parameters/'.length)
+
+    return bodyParameterRefs.has(name)
+      ? `#/components/requestBodies/${name}`
+      : `#/components/parameters/${name}`
+  }
+
+  if (ref.startsWith('#/responses/')) {
+    return `#/components/responses/${ref.slice('#/responses/'.length)}`
+  }
+
+  return ref
+}
+
+/**
+ * Names (as they appear in references) of the reusable body parameters,
+ * found in the converted components.requestBodies
+ */
+function collectBodyParameterRefs(spec: any): Set<string> {
+  return new Set(
+    Object.keys(spec?.components?.requestBodies ?? {}).map((name) =>
+      name.replace(/~/g, '~0').replace(/\//g, '~1')
+    )
+  )
+}
+
+function decodePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+function mapValues<T, U>(
+  record: Record<string, T>,
+  mapper: (value: T) => U
+): Record<string, U> {
+  const mapped: Record<string, U> = {}
+
+  for (const [key, value] of Object.entries(record)) {
+    mapped[key] = mapper(value)
+  }
+
+  return mapped
+}
@@ -0,0 +1,101 @@
+/**
+ * Utility functions for deriving MCP tool annotations from API operations
+ */
+
+import type { MCPToolAnnotations } from '../types/mcp-protocol'
+
+// Methods that only read data
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Methods that can be repeated with the same effect (RFC 9110)
+const IDEMPOTENT_METHODS = ['PUT', 'DELETE']
+
+// Words of operationIds and paths of operations that cancel or remove data
+// even when they aren't DELETEs, e.g. POST /api/oms/pvt/orders/{orderId}/cancel
+// or CancelOrder, but not avoidance or unremovable
+const DESTRUCTIVE_WORD_PATTERN =
+  /^(cancel|cancellation|cancelled|delete|deleted|remove|removed|void|refund)s?$/i
+
+export interface ToolAnnotationsOptions {
+  // The HTTP method of the operation
+  method: string
+  // The OpenAPI path of the operation
+  path: string
+  // The OpenAPI operation object
+  operation: any
+  // Annotations set on the favorite, if any
+  overrides?: MCPToolAnnotations
+}
+
+/**
+ * Derives the annotations of an operation from its HTTP method, operationId,
+ * path and summary. Overrides set by admins replace the derived values.
+ * @returns The tool annotations
+ */
+export function deriveToolAnnotations({
+  method,
+  path,
+  operation,
+  overrides,
+}: ToolAnnotationsOptions): MCPToolAnnotations {
+  const upperMethod = method.toUpperCase()
+  const readOnly = READ_ONLY_METHODS.includes(upperMethod)
+  const words = splitWords(`${operation?.operationId ?? ''} ${path}`)
+
+  const annotations: MCPToolAnnotations = {
+    readOnlyHint: readOnly,
+    destructiveHint:
+      !readOnly &&
+      (upperMethod === 'DELETE' ||
+        words.some((word) => DESTRUCTIVE_WORD_PATTERN.test(word))),
+    idempotentHint: readOnly || IDEMPOTENT_METHODS.includes(upperMethod),
+  }
+
+  if (typeof operation?.summary === 'string' && operation.summary.trim()) {
+    annotations.title = operation.summary.trim()
+  }
+
+  return { ...annotations, ...pickAnnotations(overrides) }
+}
+
+/**
+ * Splits an operationId or path into words, at camelCase boundaries and at
+ * any character other than letters and digits, e.g. SKUCancelOrder into SKU,
+ * Cancel and Order
+ */
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Keeps only the known annotations with a value of the expected type, so
+ * malformed documents don't leak into tools/list
+ */
+function pickAnnotations(overrides?: MCPToolAnnotations): MCPToolAnnotations {
+  const picked: MCPToolAnnotations = {}
+
+  if (!overrides || typeof overrides !== 'object') {
+    return picked
+  }
+
+  if (typeof overrides.title === 'string' && overrides.title.trim()) {
+    picked.title = overrides.title.trim()
+  }
+
+  for (const hint of [
+    'readOnlyHint',
+    'destructiveHint',
+    'idempotentHint',
+    'openWorldHint',
+  ] as const) {
+    if (typeof overrides[hint] === 'boolean') {
+      picked[hint] = overrides[hint]
+    }
+  }
+
+  return picked
+}
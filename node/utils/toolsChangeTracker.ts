@@ -0,0 +1,169 @@
+/**
+ * Utility functions for detecting changes of the tools list of a session
+ */
+
+import { createHash } from 'crypto'
+
+import type {
+  APISpecDocument,
+  FavoriteDocument,
+  MasterDataService,
+} from '../services/masterDataService'
+import type { MCPSession } from '../services/sessionRegistry'
+import { sessionRegistry } from '../services/sessionRegistry'
+import { getSessionStore } from '../services/sessionStore'
+import { logToMasterData } from './logging'
+import { notifySession } from './mcpNotifications'
+
+/**
+ * Computes a fingerprint of the data the tools list is built from
+ * @param specs - The enabled API specifications
+ * @param favorites - The enabled favorites of the instance
+ * @returns A hash that changes whenever the tools list would change
+ */
+export function fingerprintTools(
+  specs: APISpecDocument[],
+  favorites: FavoriteDocument[]
+): string {
+  const specKeys = specs
+    .map((spec) => `${spec.apiGroup}@${spec.version}|${spec.specUrl}`)
+    .sort((a, b) => a.localeCompare(b))
+
+  const favoriteKeys = favorites
+    .map((favorite) =>
+      [
+        favorite.instance,
+        favorite.apiGroup,
+        favorite.operationId,
+        favorite.httpMethod ?? '',
+        favorite.path ?? '',
+        favorite.description ?? '',
+        JSON.stringify(favorite.annotations ?? {}),
+      ].join('|')
+    )
+    .sort((a, b) => a.localeCompare(b))
+
+  return createHash('sha1')
+    .update(JSON.stringify({ specKeys, favoriteKeys }))
+    .digest('hex')
+}
+
+/**
+ * Loads the current specs and favorites of an instance and fingerprints them
+ * @param masterDataService - The service of the calling request
+ * @param instance - The instance whose favorites shape the tools
+ */
+export async function computeToolsFingerprint(
+  masterDataService: MasterDataService,
+  instance: string | undefined
+): Promise<string> {
+  const [specs, favorites] = await Promise.all([
+    masterDataService.getAPISpecs(),
+    masterDataService.getFavorites(instance),
+  ])
+
+  return fingerprintTools(specs, favorites)
+}
+
+/**
+ * Compares the current tools fingerprint of an instance with the one last
+ * seen by the session and sends notifications/tools/list_changed when they
+ * differ. The first check of a session only records the fingerprint.
+ * @param fingerprint - The current fingerprint, from computeToolsFingerprint
+ * @returns True if a notification was sent
+ */
+export async function checkToolsListChanged(
+  ctx: Context,
+  session: MCPSession,
+  fingerprint: string
+): Promise<boolean> {
+  const previous = session.toolsFingerprint
+
+  if (previous === fingerprint) {
+    return false
+  }
+
+  if (previous === undefined) {
+    await recordToolsFingerprint(ctx, session.id, fingerprint)
+
+    return false
+  }
+
+  // Keep the previous fingerprint when the notification can't be delivered,
+  // so the change is detected again on the next check
+  const delivered = notifySession(
+    session.id,
+    'notifications/tools/list_changed'
+  )
+
+  if (delivered) {
+    await recordToolsFingerprint(ctx, session.id, fingerprint)
+  }
+
+  return delivered
+}
+
+/**
+ * Sends notifications/tools/list_changed to every session with an open
+ * stream and records the fingerprint of the tools each one lists next. Used
+ * when the API specifications change, since they shape the tools of all
+ * instances.
+ * @param masterDataService - The service that changed the specifications
+ * @returns The number of notifications delivered
+ */
+export async function notifyToolsListChanged(
+  ctx: Context,
+  masterDataService: MasterDataService
+): Promise<number> {
+  const notified = sessionRegistry
+    .list()
+    .filter((session) =>
+      notifySession(session.id, 'notifications/tools/list_changed')
+    )
+
+  // Sessions of the same instance share one fingerprint
+  const fingerprints = new Map<string, Promise<string>>()
+
+  await Promise.all(
+    notified.map(async (session) => {
+      try {
+        if (!fingerprints.has(session.instance)) {
+          fingerprints.set(
+            session.instance,
+            computeToolsFingerprint(masterDataService, session.instance)
+          )
+        }
+
+        await recordToolsFingerprint(
+          ctx,
+          session.id,
+          await (fingerprints.get(session.instance) as Promise<string>)
+        )
+      } catch (error) {
+        // The previous fingerprint is kept, so the next check notifies again
+        await logToMasterData(
+          ctx,
+          'notifyToolsListChanged',
+          'toolsChangeTracker',
+          'error',
+          {
+            error,
+            data: { sessionId: session.id },
+            message: 'Failed to record the MCP tools fingerprint',
+          }
+        )
+      }
+    })
+  )
+
+  return notified.length
+}
+
+async function recordToolsFingerprint(
+  ctx: Context,
+  sessionId: string,
+  fingerprint: string
+): Promise<void> {
+  sessionRegistry.setToolsFingerprint(sessionId, fingerprint)
+  await sessionRegistry.save(getSessionStore(ctx), sessionId)
+}
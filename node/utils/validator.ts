@@ -260,9 +260,10 @@ export class RequestValidator {
         throw new Error('Query parameter keys must be strings')
       }
 
-      // Convert values to strings for query parameters
+      // Values keep their types: they are coerced and serialized by the
+      // parameter definitions of the operation (see parameterSerializer)
       if (value !== null && value !== undefined) {
-        sanitized[key] = String(value)
+        sanitized[key] = value
       }
     }
 
@@ -289,7 +290,7 @@ export class RequestValidator {
       }
 
       if (value !== null && value !== undefined) {
-        sanitized[key] = String(value)
+        sanitized[key] = value
       }
     }
 
@@ -299,7 +300,7 @@ export class RequestValidator {
   /**
    * Validate headers object
    */
-  public static validateHeaders(headers: any): Record<string, string> {
+  public static validateHeaders(headers: any): Record<string, any> {
     if (headers === undefined || headers === null) {
       return {}
     }
@@ -308,7 +309,7 @@ export class RequestValidator {
       throw new Error('Headers must be an object')
     }
 
-    const sanitized: Record<string, string> = {}
+    const sanitized: Record<string, any> = {}
 
     for (const [key, value] of Object.entries(headers)) {
       if (typeof key !== 'string') {
@@ -316,7 +317,7 @@ export class RequestValidator {
       }
 
       if (value !== null && value !== undefined) {
-        sanitized[key] = String(value)
+        sanitized[key] = value
       }
     }
 